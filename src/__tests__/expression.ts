@@ -1,7 +1,9 @@
-import { array, constant, field, func, not } from '../expression';
+import {
+    Expression, array, caseOf, caseWhen, coalesce, constant, field, func, greatest, least, not, nullif,
+} from '../expression';
 import { JsonArrayAgg, JsonObjectAgg, PartialWindowCall, agg } from '../expression';
 import { Serializable, unlex } from '../serialize';
-import { boolean } from '../types';
+import { Interval, boolean, interval, text } from '../types';
 
 describe('BaseExpr', () => {
     it('.isNull()', () => {
@@ -177,6 +179,115 @@ it('serializes function expressions correctly with one argument', () => {
     expectStringifyToBe(expr, "MY_FUNC(1)");
 });
 
+it('serializes schema-qualified function names', () => {
+    const expr = func('my_func', [constant(1)], {schema: 'util'});
+    expectStringifyToBe(expr, "util.my_func(1)");
+});
+
+it('serializes searched CASE expressions', () => {
+    const age = field<number>('users', 'age');
+    const expr: Expression<string | null> = caseWhen(age.lt(constant(13)), constant('child'))
+        .when(age.lt(constant(20)), constant('teen'));
+    expectStringifyToBe(expr, "CASE WHEN (users.age < 13) THEN 'child' WHEN (users.age < 20) THEN 'teen' END");
+    const withElse: Expression<string | number> = caseWhen(age.lt(constant(13)), constant('child')).else(age);
+    expectStringifyToBe(withElse, "CASE WHEN (users.age < 13) THEN 'child' ELSE users.age END");
+});
+
+it('serializes simple CASE expressions', () => {
+    const status = field<string>('users', 'status');
+    const expr: Expression<number> = caseOf(status)
+        .when(constant('active'), constant(1))
+        .when(constant('idle'), constant(2))
+        .else(constant(0));
+    expectStringifyToBe(expr, "CASE users.status WHEN 'active' THEN 1 WHEN 'idle' THEN 2 ELSE 0 END");
+    // @ts-expect-error matches must have the subject's type
+    caseOf(status).when(constant(1), constant(1));
+});
+
+it('types COALESCE by the nullability of its arguments', () => {
+    const nickname = field<string | null>('users', 'nickname');
+    const name = field<string>('users', 'name');
+    const expr: Expression<string> = coalesce(nickname, name);
+    expectStringifyToBe(expr, 'COALESCE(users.nickname, users.name)');
+    const nullable: Expression<string | null> = coalesce(nickname, nickname);
+    expectStringifyToBe(nullable, 'COALESCE(users.nickname, users.nickname)');
+});
+
+it('adds null to the type of NULLIF', () => {
+    const expr: Expression<number | null> = nullif(field<number>('users', 'age'), constant(0));
+    expectStringifyToBe(expr, 'NULLIF(users.age, 0)');
+});
+
+it('requires GREATEST and LEAST arguments to share a type', () => {
+    const age = field<number>('users', 'age');
+    expectStringifyToBe(greatest(age, constant(18)), 'GREATEST(users.age, 18)');
+    expectStringifyToBe(least(age, constant(65), constant(100)), 'LEAST(users.age, 65, 100)');
+    // @ts-expect-error a string can't be compared to a number
+    greatest(age, constant('18'));
+});
+
+it('types GREATEST and LEAST by the nullability of their arguments', () => {
+    const age = field<number | null>('users', 'age');
+    const expr: Expression<number> = greatest(age, constant(18));
+    expectStringifyToBe(expr, 'GREATEST(users.age, 18)');
+    const nullable: Expression<number | null> = least(age, field<number | null>('users', 'max_age'));
+    expectStringifyToBe(nullable, 'LEAST(users.age, users.max_age)');
+});
+
+it('serializes arithmetic operators', () => {
+    const price = field<number>('items', 'price');
+    const quantity = field<number>('items', 'quantity');
+    expectStringifyToBe(price.mul(quantity), '(items.price * items.quantity)');
+    expectStringifyToBe(price.add(constant(1)).div(constant(2)), '((items.price + 1) / 2)');
+    expectStringifyToBe(quantity.mod(constant(3)).pow(constant(2)), '((items.quantity % 3) ^ 2)');
+    // @ts-expect-error strings can't be added
+    field<string>('items', 'name').add(field<string>('items', 'name'));
+});
+
+it('serializes timestamp and interval arithmetic', () => {
+    const createdAt = field<Date>('posts', 'created_at');
+    const day = constant('1 day').castAs(interval.notNull());
+    const later: Expression<Date> = createdAt.add(day);
+    expectStringifyToBe(later, "(posts.created_at + CAST('1 day' AS interval))");
+    const age: Expression<Interval> = field<Date>('posts', 'updated_at').sub(createdAt);
+    expectStringifyToBe(age, '(posts.updated_at - posts.created_at)');
+    const week: Expression<Interval> = day.mul(constant(7));
+    expectStringifyToBe(week, "(CAST('1 day' AS interval) * 7)");
+    // @ts-expect-error timestamps can't be added together
+    createdAt.add(createdAt);
+});
+
+it('serializes concatenation', () => {
+    const name = field<string>('users', 'name');
+    expectStringifyToBe(name.concat(constant('!')), "(users.name || '!')");
+    const tags = field<string[]>('posts', 'tags');
+    const moreTags: Expression<string[]> = tags.concat(constant('new').castAs(text.notNull()));
+    expectStringifyToBe(moreTags, "(posts.tags || CAST('new' AS text))");
+    // @ts-expect-error array elements must have the array's element type
+    tags.concat(constant(1));
+});
+
+it('serializes bitwise operators', () => {
+    const flags = field<number>('users', 'flags');
+    expectStringifyToBe(flags.bitAnd(constant(4)).bitOr(constant(1)), '((users.flags & 4) | 1)');
+    expectStringifyToBe(flags.bitXor(flags).shiftLeft(constant(2)), '((users.flags # users.flags) << 2)');
+    expectStringifyToBe(flags.bitNot(), '(~ users.flags)');
+});
+
+it('serializes BETWEEN predicates', () => {
+    const createdAt = field<Date>('posts', 'created_at');
+    const [since, until] = [field<Date>('r', 'since'), field<Date>('r', 'until')];
+    expectStringifyToBe(createdAt.between(since, until), '(posts.created_at BETWEEN r.since AND r.until)');
+    expectStringifyToBe(createdAt.notBetween(since, until), '(posts.created_at NOT BETWEEN r.since AND r.until)');
+    const age = field<number>('users', 'age');
+    expectStringifyToBe(age.betweenSymmetric(constant(65), constant(18)).and(age.ne(constant(30))),
+                        '((users.age BETWEEN SYMMETRIC 65 AND 18) AND (users.age <> 30))');
+    expectStringifyToBe(age.add(constant(1)).notBetweenSymmetric(constant(1), constant(2)),
+                        '((users.age + 1) NOT BETWEEN SYMMETRIC 1 AND 2)');
+    // @ts-expect-error bounds must have the same type as the value
+    age.between(constant('1'), constant('2'));
+});
+
 it('serializes aggregate functions correctly', () => {
     const expr = agg<number>('SUM', [field('users', 'age')]);
     expectStringifyToBe(expr, "SUM(users.age)");
@@ -245,12 +356,50 @@ it('handles filter in ordered set aggregates', () => {
                         "PERCENTILE_CONT(users.score) WITHIN GROUP (users.score ASC) FILTER (WHERE (users.active = true))");
 });
 
+it('uses ordinary aggregates as window functions', () => {
+    expectStringifyToBe(agg<number>('sum', [field('users', 'age')]).over('w'), 'sum(users.age) OVER w');
+    const expr = agg<bigint>('count', [])
+        .filterWhere(field<boolean>('users', 'active'))
+        .over({partitionBy: [field('users', 'team')]});
+    expectStringifyToBe(expr, 'count(*) FILTER (WHERE users.active) OVER (PARTITION BY users.team)');
+    // @ts-expect-error window aggregates can't use DISTINCT
+    agg<number>('sum', [field('users', 'age')]).distinct().over('w');
+    const ordered = agg('percentile_cont', [field('users', 'pct')], 'WITHIN GROUP', [field('users', 'age').asc()]);
+    // @ts-expect-error ordered-set aggregates can't be used as window functions
+    expect(() => ordered.over('w')).toThrow();
+});
+
 it('serializes window function calls correctly', () => {
     const partial = new PartialWindowCall<number>('ROW_NUMBER', []);
     const expr = partial.over('win_alias');
     expectStringifyToBe(expr, "ROW_NUMBER(*) OVER win_alias");
 });
 
+it('serializes inline window definitions', () => {
+    const partial = new PartialWindowCall<number>('rank', []);
+    const score = field<number>('users', 'score');
+    expectStringifyToBe(partial.over({}), 'rank(*) OVER ()');
+    expectStringifyToBe(
+        partial.over({partitionBy: [field('users', 'team')], orderBy: [score.desc('NULLS LAST')]}),
+        'rank(*) OVER (PARTITION BY users.team ORDER BY users.score DESC NULLS LAST)',
+    );
+    expectStringifyToBe(
+        partial.over({
+            orderBy: [score],
+            frame: {type: 'ROWS', start: {offset: 2, type: 'PRECEDING'}, end: {type: 'CURRENT ROW'}},
+        }),
+        'rank(*) OVER (ORDER BY users.score ROWS BETWEEN 2 PRECEDING AND CURRENT ROW)',
+    );
+});
+
+it('extends named windows in over', () => {
+    const partial = new PartialWindowCall<number>('rank', []);
+    expectStringifyToBe(partial.over('base', {orderBy: [field('users', 'score')]}),
+                        'rank(*) OVER (base ORDER BY users.score)');
+    // @ts-expect-error a named window's partitioning can't be changed
+    partial.over('base', {partitionBy: [field('users', 'team')]});
+});
+
 // ### PartialWindowCall Tests
 // - should handle filter in partial window calls
 // - should handle over clause in partial window calls
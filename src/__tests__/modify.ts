@@ -0,0 +1,352 @@
+import { constant } from '../expression';
+import { table, withQueries } from '../select';
+import { ReturningStatement, Subquery } from '../select-types';
+import { Serializable, unlex } from '../serialize';
+import * as sql from '../types';
+import { Uuid } from '../types';
+
+const posts = table('posts', {
+    id: sql.uuid.notNull(),
+    name: sql.text.notNull(),
+    word_count: sql.number.notNull(),
+    subtitle: sql.text,
+}, {defaults: ['id'], keys: [['id'], ['name', 'subtitle']]});
+
+const id = constant('4b7c1b5e-2f36-4a8e-9d0a-2b4f0e6e2f10').castAs(sql.uuid.notNull());
+
+const userPost = table('user_post', {
+    user_id: sql.uuid.notNull(),
+    post_id: sql.uuid.notNull(),
+    active: sql.boolean.notNull(),
+});
+
+describe('INSERT', () => {
+    it('serializes a single row', () => {
+        const query = posts.insert([{name: constant('Hello'), word_count: constant(10)}]);
+        expectStringifyToBe(query, "INSERT INTO posts(name, word_count) VALUES ('Hello', 10)");
+    });
+
+    it('fills in DEFAULT for columns missing from some rows', () => {
+        const query = posts.insert([
+            {id, name: constant('a'), word_count: constant(1)},
+            {name: constant('b'), word_count: constant(2), subtitle: constant('sub')},
+        ]);
+        expectStringifyToBe(
+            query,
+            "INSERT INTO posts(id, name, word_count, subtitle) VALUES "
+                + "(CAST('4b7c1b5e-2f36-4a8e-9d0a-2b4f0e6e2f10' AS uuid), 'a', 1, DEFAULT), "
+                + "(DEFAULT, 'b', 2, 'sub')",
+        );
+    });
+
+    it('uses DEFAULT VALUES when no columns are given', () => {
+        const counters = table('counters', {id: sql.number.notNull()}, {defaults: ['id']});
+        expectStringifyToBe(counters.insert([{}]), 'INSERT INTO counters DEFAULT VALUES');
+        expect(() => counters.insert([{}, {}]).serialize()).toThrow();
+    });
+
+    it('rejects an empty list of rows', () => {
+        expect(() => posts.insert([])).toThrow();
+    });
+
+    it('type-checks rows against the table definition', () => {
+        // @ts-expect-error name is required
+        posts.insert([{word_count: constant(1)}]);
+        // @ts-expect-error word_count must be a number
+        posts.insert([{name: constant('a'), word_count: constant('1')}]);
+        // @ts-expect-error unknown columns are rejected
+        posts.insert([{name: constant('a'), word_count: constant(1), extra: constant(1)}]);
+    });
+});
+
+describe('INSERT ... SELECT', () => {
+    const drafts = table('drafts', {
+        id: sql.uuid.notNull(),
+        title: sql.text.notNull(),
+        words: sql.number.notNull(),
+    });
+
+    it('inserts into the columns named by the subquery', () => {
+        const query = posts.insert(drafts.select(({drafts}) => ({word_count: drafts.words, name: drafts.title})));
+        expectStringifyToBe(
+            query,
+            'INSERT INTO posts(word_count, name) '
+                + 'SELECT drafts.words AS word_count, drafts.title AS name FROM drafts',
+        );
+    });
+
+    it('supports ON CONFLICT', () => {
+        const draft = drafts.select(({drafts}) => ({id: drafts.id, name: drafts.title, word_count: drafts.words}));
+        const query = posts.insert(draft).onConflict(['id']).doNothing();
+        expectStringifyToBe(
+            query,
+            'INSERT INTO posts(id, name, word_count) SELECT drafts.id AS id, drafts.title AS name, '
+                + 'drafts.words AS word_count FROM drafts ON CONFLICT (id) DO NOTHING',
+        );
+    });
+
+    it('type-checks the projection against the table', () => {
+        // @ts-expect-error word_count is required
+        posts.insert(drafts.select(({drafts}) => ({name: drafts.title})));
+        // @ts-expect-error name must be text
+        posts.insert(drafts.select(({drafts}) => ({name: drafts.words, word_count: drafts.words})));
+        // @ts-expect-error x is not a column of posts
+        posts.insert(drafts.select(({drafts}) => ({name: drafts.title, word_count: drafts.words, x: drafts.id})));
+    });
+});
+
+describe('INSERT ... ON CONFLICT', () => {
+    const row = {name: constant('Hello'), word_count: constant(10)};
+
+    it('serializes DO NOTHING without a target', () => {
+        const query = posts.insert([row]).onConflict().doNothing();
+        expectStringifyToBe(query,
+                            "INSERT INTO posts(name, word_count) VALUES ('Hello', 10) ON CONFLICT DO NOTHING");
+    });
+
+    it('serializes a column target', () => {
+        const query = posts.insert([row]).onConflict(['name', 'subtitle']).doNothing();
+        expectStringifyToBe(
+            query,
+            "INSERT INTO posts(name, word_count) VALUES ('Hello', 10) ON CONFLICT (name, subtitle) DO NOTHING",
+        );
+    });
+
+    it('serializes DO UPDATE with the excluded row', () => {
+        const query = posts.insert([row]).onConflictOnConstraint('posts_pkey')
+            .doUpdate(({excluded}) => ({word_count: excluded.word_count}),
+                      ({posts, excluded}) => posts.word_count.lt(excluded.word_count));
+        expectStringifyToBe(
+            query,
+            "INSERT INTO posts(name, word_count) VALUES ('Hello', 10) ON CONFLICT ON CONSTRAINT posts_pkey "
+                + 'DO UPDATE SET word_count = excluded.word_count WHERE (posts.word_count < excluded.word_count)',
+        );
+    });
+
+    it('rejects columns the table does not have in DO UPDATE', () => {
+        posts.insert([row]).onConflictOnConstraint('posts_pkey')
+            // @ts-expect-error posts has no wordcount column
+            .doUpdate(({excluded}) => ({name: excluded.name, wordcount: excluded.word_count}));
+    });
+
+    it('restricts conflict targets to declared keys', () => {
+        // @ts-expect-error word_count is not a key
+        posts.insert([row]).onConflict(['word_count']);
+        // @ts-expect-error userPost declares no keys
+        userPost.insert([{user_id: id, post_id: id, active: constant(true)}]).onConflict(['user_id']);
+    });
+
+    it('requires a conflict target for DO UPDATE', () => {
+        // @ts-expect-error DO UPDATE needs a conflict target
+        expect(() => posts.insert([row]).onConflict().doUpdate(({excluded}) => ({name: excluded.name}))).toThrow();
+    });
+});
+
+describe('UPDATE', () => {
+    it('serializes SET and WHERE', () => {
+        const query = posts.update(() => ({name: constant('New'), subtitle: constant(null)}))
+            .where(({posts}) => posts.word_count.gt(constant(100)));
+        expectStringifyToBe(query,
+                            "UPDATE posts SET name = 'New', subtitle = null WHERE (posts.word_count > 100)");
+    });
+
+    it('can reference the current row in SET', () => {
+        const query = posts.as('p').update(({p}) => ({subtitle: p.name}));
+        expectStringifyToBe(query, 'UPDATE posts AS p SET subtitle = p.name');
+    });
+
+    it('supports FROM', () => {
+        const query = posts.update(userPost.as('up'), () => ({subtitle: constant('active')}))
+            .where(({posts, up}) => posts.id.eq(up.post_id).and(up.active));
+        expectStringifyToBe(
+            query,
+            "UPDATE posts SET subtitle = 'active' FROM user_post AS up "
+                + 'WHERE ((posts.id = up.post_id) AND up.active)',
+        );
+    });
+
+    it('rejects an empty SET', () => {
+        expect(() => posts.update(() => ({})).serialize()).toThrow();
+    });
+
+    it('type-checks assignments against the target columns', () => {
+        // @ts-expect-error word_count must be a number
+        posts.update(() => ({word_count: constant('1')}));
+        // @ts-expect-error name cannot be set to a uuid
+        posts.update(userPost.as('up'), ({up}) => ({name: up.user_id}));
+    });
+
+    it('rejects columns the table does not have', () => {
+        // @ts-expect-error posts has no bogus column
+        posts.update(() => ({name: constant('x'), bogus: constant(1)}));
+        // @ts-expect-error posts has no bogus column
+        posts.update(userPost.as('up'), ({up}) => ({name: constant('x'), bogus: up.active}));
+    });
+});
+
+describe('DELETE', () => {
+    it('serializes WHERE', () => {
+        const query = posts.delete().where(({posts}) => posts.word_count.eq(constant(0)));
+        expectStringifyToBe(query, 'DELETE FROM posts WHERE (posts.word_count = 0)');
+    });
+
+    it('supports USING', () => {
+        const query = posts.as('p').delete()
+            .using(userPost.as('up'))
+            .where(({p, up}) => p.id.eq(up.post_id).and(up.active));
+        expectStringifyToBe(
+            query,
+            'DELETE FROM posts AS p USING user_post AS up WHERE ((p.id = up.post_id) AND up.active)',
+        );
+    });
+
+    it('refuses to delete every row unless asked to', () => {
+        expect(() => posts.delete().serialize()).toThrow();
+        expectStringifyToBe(posts.delete().all(), 'DELETE FROM posts');
+    });
+});
+
+describe('RETURNING', () => {
+    it('projects from INSERT', () => {
+        const query = posts.insert([{name: constant('a'), word_count: constant(1)}])
+            .returning(({posts}) => ({postId: posts.id}));
+        expectStringifyToBe(query,
+                            "INSERT INTO posts(name, word_count) VALUES ('a', 1) RETURNING posts.id AS postId");
+    });
+
+    it('projects from UPDATE ... FROM', () => {
+        const query = posts.update(userPost.as('up'), ({up}) => ({subtitle: up.user_id.castAs(sql.text)}))
+            .where(({posts, up}) => posts.id.eq(up.post_id))
+            .returning(({posts, up}) => ({id: posts.id, active: up.active}));
+        expectStringifyToBe(
+            query,
+            'UPDATE posts SET subtitle = CAST(up.user_id AS text) FROM user_post AS up '
+                + 'WHERE (posts.id = up.post_id) RETURNING posts.id AS id, up.active AS active',
+        );
+    });
+
+    it('projects every column from DELETE', () => {
+        const query = posts.delete().all().returning(() => ({}));
+        expectStringifyToBe(query, 'DELETE FROM posts RETURNING *');
+    });
+
+    it('infers the row type', () => {
+        const query = posts.delete().all().returning(({posts}) => ({n: posts.word_count}));
+        const asReturning = <SelectTuple>(q: ReturningStatement<SelectTuple>) => q;
+        asReturning<{n: number}>(query);
+        // @ts-expect-error n is a number
+        asReturning<{n: string}>(query);
+    });
+
+    it('can only be used as a WITH query', () => {
+        const query = posts.delete().all().returning(({posts}) => ({id: posts.id}));
+        const asSubquery = <SelectTuple>(q: Subquery<SelectTuple>) => q;
+        // @ts-expect-error not a Subquery
+        asSubquery(query);
+        // @ts-expect-error can't be used as a from_item
+        expect(() => query.as('deleted')).toThrow();
+    });
+});
+
+describe('data-modifying statements in WITH', () => {
+    const archive = table('archive', {
+        id: sql.uuid.notNull(),
+        name: sql.text.notNull(),
+    });
+
+    it('moves rows with DELETE ... RETURNING and INSERT ... SELECT', () => {
+        const query = withQueries({
+            moved: posts.delete()
+                .where(({posts}) => posts.word_count.eq(constant(0)))
+                .returning(({posts}) => ({id: posts.id, name: posts.name})),
+        }, ({moved}) => archive.insert(moved.select(({moved}) => ({id: moved.id, name: moved.name}))));
+        expectStringifyToBe(
+            query,
+            'WITH moved AS (DELETE FROM posts WHERE (posts.word_count = 0) RETURNING posts.id AS id, '
+                + 'posts.name AS name) INSERT INTO archive(id, name) SELECT moved.id AS id, moved.name AS name '
+                + 'FROM moved',
+        );
+    });
+
+    it('can return rows from the main statement', () => {
+        const query = withQueries({
+            touched: userPost.as('up').update(() => ({active: constant(false)}))
+                .where(({up}) => up.active)
+                .returning(({up}) => ({postId: up.post_id})),
+        }, ({touched}) => touched.select(({touched}) => ({postId: touched.postId})));
+        expectStringifyToBe(
+            query,
+            'WITH touched AS (UPDATE user_post AS up SET active = false WHERE up.active '
+                + 'RETURNING up.post_id AS postId) SELECT touched.postId AS postId FROM touched',
+        );
+    });
+
+    it('can only be used at the top level', () => {
+        const query = withQueries({
+            deleted: posts.delete().all().returning(({posts}) => ({id: posts.id})),
+        }, ({deleted}) => deleted.select(({deleted}) => ({id: deleted.id})));
+        const asSubquery = <SelectTuple>(q: Subquery<SelectTuple>) => q;
+        // @ts-expect-error WITH queries with data-modifying statements aren't Subqueries
+        asSubquery<{id: Uuid}>(query);
+    });
+});
+
+describe('MERGE', () => {
+    const staging = table('staging', {
+        id: sql.uuid.notNull(),
+        name: sql.text.notNull(),
+        word_count: sql.number.notNull(),
+        removed: sql.boolean.notNull(),
+    });
+
+    it('serializes every kind of WHEN clause', () => {
+        const query = posts.merge(staging.as('s'), ({posts, s}) => posts.id.eq(s.id))
+            .whenMatched(({s}) => s.removed).thenDelete()
+            .whenMatched().thenUpdate(({s}) => ({name: s.name, word_count: s.word_count}))
+            .whenNotMatched(({s}) => s.removed).thenDoNothing()
+            .whenNotMatched().thenInsert(({s}) => ({id: s.id, name: s.name, word_count: s.word_count}));
+        expectStringifyToBe(
+            query,
+            'MERGE INTO posts USING staging AS s ON (posts.id = s.id) '
+                + 'WHEN MATCHED AND s.removed THEN DELETE '
+                + 'WHEN MATCHED THEN UPDATE SET name = s.name, word_count = s.word_count '
+                + 'WHEN NOT MATCHED AND s.removed THEN DO NOTHING '
+                + 'WHEN NOT MATCHED THEN INSERT (id, name, word_count) VALUES (s.id, s.name, s.word_count)',
+        );
+    });
+
+    it('accepts a subquery as the source', () => {
+        const source = staging.select(({staging}) => ({id: staging.id})).as('s');
+        const query = posts.as('p').merge(source, ({p, s}) => p.id.eq(s.id))
+            .whenMatched().thenDoNothing();
+        expectStringifyToBe(
+            query,
+            'MERGE INTO posts AS p USING (SELECT staging.id AS id FROM staging) AS s ON (p.id = s.id) '
+                + 'WHEN MATCHED THEN DO NOTHING',
+        );
+    });
+
+    it('requires a WHEN clause', () => {
+        const query = posts.merge(staging, ({posts, staging}) => posts.id.eq(staging.id));
+        expect(() => query.serialize()).toThrow();
+    });
+
+    it('type-checks actions against the target', () => {
+        const query = posts.merge(staging.as('s'), ({posts, s}) => posts.id.eq(s.id));
+        // @ts-expect-error name is required
+        query.whenNotMatched().thenInsert(({s}) => ({word_count: s.word_count}));
+        // @ts-expect-error the target row is not available when not matched
+        query.whenNotMatched(({posts}) => posts.name.eq(constant('a')));
+        // @ts-expect-error word_count must be a number
+        query.whenMatched().thenUpdate(({s}) => ({word_count: s.name}));
+        // @ts-expect-error posts has no nmae column
+        query.whenMatched().thenUpdate(({s}) => ({name: s.name, nmae: s.name}));
+        const notMatched = query.whenNotMatched();
+        // @ts-expect-error posts has no gone column
+        notMatched.thenInsert(({s}) => ({id: s.id, name: s.name, word_count: s.word_count, gone: s.removed}));
+    });
+});
+
+const stringify = (s: Serializable): string => unlex(s.serialize());
+
+const expectStringifyToBe = (expr: Serializable, expected: string) => expect(stringify(expr)).toBe(expected);
@@ -0,0 +1,477 @@
+import { Expression, array, caseWhen, coalesce, constant, exists, func, number } from '../expression';
+import {
+    fromFunction, inSchema, materialized, notMaterialized, rowsFrom, select, table, unnest, values, withQueries,
+    withRecursive,
+} from '../select';
+import { Serializable, unlex } from '../serialize';
+import * as sql from '../types';
+import { rank, rowNumber } from '../window-functions';
+
+const posts = table('posts', {
+    id: sql.uuid.notNull(),
+    name: sql.text.notNull(),
+    word_count: sql.number.notNull(),
+});
+
+describe('joinUsing', () => {
+    const stats = table('stats', {
+        id: sql.uuid.notNull(),
+        name: sql.text.notNull(),
+        views: sql.number.notNull(),
+    });
+
+    it('serializes USING', () => {
+        const query = posts.joinUsing(stats, ['id', 'name'])
+            .select(({posts, stats}) => ({name: posts.name, views: stats.views}));
+        expectStringifyToBe(
+            query,
+            'SELECT posts.name AS name, stats.views AS views FROM (posts INNER JOIN stats USING (id, name))',
+        );
+    });
+
+    it('exposes the merged columns through the join alias', () => {
+        const query = posts.joinUsing(stats, ['id'], 'j')
+            .select(({j, stats}) => ({id: j.id, views: stats.views}));
+        expectStringifyToBe(
+            query,
+            'SELECT j.id AS id, stats.views AS views FROM (posts INNER JOIN stats USING (id) AS j)',
+        );
+        posts.joinUsing(stats, ['id'], 'j')
+            // @ts-expect-error only the USING columns are visible through the alias
+            .select(({j}) => ({name: j.name}));
+    });
+
+    it('only accepts columns present on both sides', () => {
+        // @ts-expect-error views only exists on stats
+        posts.joinUsing(stats, ['views']);
+        // @ts-expect-error word_count only exists on posts
+        posts.joinUsing(stats, ['id', 'word_count']);
+        expect(() => posts.joinUsing(stats, [])).toThrow();
+    });
+
+    it('serializes NATURAL JOIN', () => {
+        const query = posts.naturalJoin(stats).select(({stats}) => ({views: stats.views}));
+        expectStringifyToBe(query, 'SELECT stats.views AS views FROM (posts NATURAL INNER JOIN stats)');
+    });
+});
+
+describe('column aliases', () => {
+    it('renames subquery columns', () => {
+        const subquery = posts.select(({posts}) => ({id: posts.id, name: posts.name}));
+        const query = subquery.as('s', {n: 'name'}).select(({s}) => ({n: s.n}));
+        expectStringifyToBe(
+            query,
+            'SELECT s.n AS n FROM (SELECT posts.id AS id, posts.name AS name FROM posts) AS s(id, n)',
+        );
+        // @ts-expect-error name has been renamed
+        subquery.as('s', {n: 'name'}).select(({s}) => ({name: s.name}));
+        // @ts-expect-error word_count is not a column of the subquery
+        subquery.as('s', {n: 'word_count'});
+    });
+
+    it("doesn't rename table columns, whose order isn't known", () => {
+        // @ts-expect-error select the columns in a subquery instead
+        posts.as('p', {title: 'name'});
+    });
+
+    it('rejects duplicate column names', () => {
+        const subquery = posts.select(({posts}) => ({id: posts.id, name: posts.name}));
+        expect(() => subquery.as('s', {a: 'name', b: 'name'})).toThrow();
+        expect(() => subquery.as('s', {id: 'name'})).toThrow();
+    });
+
+    it('serializes a column definition list for functions', () => {
+        const query = fromFunction('jsonb_to_recordset', [constant('[]').castAs(sql.jsonb)])
+            .as('r', {id: sql.uuid.notNull(), name: sql.text, at: sql.timestampWithTimeZone})
+            .select(({r}) => ({id: r.id, name: r.name, at: r.at}));
+        expectStringifyToBe(
+            query,
+            "SELECT r.id AS id, r.name AS name, r.at AS at FROM jsonb_to_recordset(CAST('[]' AS jsonb)) "
+                + 'AS r(id uuid, name text, at timestamp with time zone)',
+        );
+        expect(() => fromFunction('jsonb_to_recordset', []).withOrdinality().as('r', {id: sql.uuid})).toThrow();
+    });
+});
+
+describe('select without FROM', () => {
+    it('serializes the select list alone', () => {
+        expectStringifyToBe(select(() => ({now: func<Date>('now', [])})), 'SELECT now() AS now');
+    });
+
+    it('supports the other clauses', () => {
+        const query = select(() => ({one: number(1)}))
+            .where(() => exists(posts.select(({posts}) => ({id: posts.id}))));
+        expectStringifyToBe(query, 'SELECT 1 AS one WHERE EXISTS(SELECT posts.id AS id FROM posts)');
+    });
+
+    it('rejects an empty select list', () => {
+        expect(() => select(() => ({}))).toThrow('SELECT without FROM requires at least one column');
+    });
+
+    it('allows EXISTS with several columns', () => {
+        const query = select(() => ({one: number(1)}))
+            .where(() => exists(posts.select(({posts}) => ({id: posts.id, name: posts.name}))));
+        expectStringifyToBe(
+            query,
+            'SELECT 1 AS one WHERE EXISTS(SELECT posts.id AS id, posts.name AS name FROM posts)',
+        );
+    });
+});
+
+describe('inheritance', () => {
+    it('serializes ONLY and *', () => {
+        expectStringifyToBe(posts.only().select(({posts}) => ({id: posts.id})),
+                            'SELECT posts.id AS id FROM ONLY posts');
+        expectStringifyToBe(posts.withDescendants().as('p'), 'posts * AS p');
+        expectStringifyToBe(posts.only().delete().all(), 'DELETE FROM ONLY posts');
+    });
+
+    it('rejects INSERT', () => {
+        const id = constant('4b7c1b5e-2f36-4a8e-9d0a-2b4f0e6e2f10').castAs(sql.uuid.notNull());
+        const row = {id, name: constant('b'), word_count: number(1)};
+        expectStringifyToBe(posts.insert([row]), "INSERT INTO posts(id, name, word_count) VALUES "
+            + "(CAST('4b7c1b5e-2f36-4a8e-9d0a-2b4f0e6e2f10' AS uuid), 'b', 1)");
+        // @ts-expect-error INSERT always targets the table itself
+        expect(() => posts.only().insert([row])).toThrow('INSERT cannot use ONLY or *');
+        // @ts-expect-error aliasing keeps ONLY
+        expect(() => posts.only().as('p').insert([row])).toThrow('INSERT cannot use ONLY or *');
+        // @ts-expect-error aliasing keeps *
+        posts.withDescendants().as('p').only();
+    });
+});
+
+describe('schemas', () => {
+    const events = table('events', {id: sql.uuid.notNull(), kind: sql.text.notNull()}, {schema: 'analytics'});
+
+    it('qualifies table names', () => {
+        expectStringifyToBe(events.select(({events}) => ({id: events.id})),
+                            'SELECT events.id AS id FROM analytics.events');
+        expectStringifyToBe(events.as('e').select(({e}) => ({id: e.id})),
+                            'SELECT e.id AS id FROM analytics.events AS e');
+        expectStringifyToBe(table('events', {}, {schema: 'order'}), '"order".events');
+    });
+
+    it('qualifies function names', () => {
+        expectStringifyToBe(fromFunction('tally', [number(1)], {schema: 'analytics'}).as('t'),
+                            'analytics.tally(1) AS t');
+        expectStringifyToBe(fromFunction('Odd Name', []).as('o'), '"Odd Name"() AS o');
+    });
+
+    it('binds table definitions to another schema', () => {
+        const tenant = inSchema('tenant_1', {events, posts});
+        expectStringifyToBe(tenant.posts.select(({posts}) => ({id: posts.id})),
+                            'SELECT posts.id AS id FROM tenant_1.posts');
+        expectStringifyToBe(tenant.events.delete().all(), 'DELETE FROM tenant_1.events');
+        expectStringifyToBe(events, 'analytics.events');
+    });
+});
+
+describe('tablesample', () => {
+    it('serializes the sampling method and percentage', () => {
+        const query = posts.tablesample('BERNOULLI', 10).select(({posts}) => ({id: posts.id}));
+        expectStringifyToBe(query, 'SELECT posts.id AS id FROM posts TABLESAMPLE BERNOULLI (10)');
+    });
+
+    it('serializes REPEATABLE after the alias', () => {
+        const query = posts.as('p').tablesample('SYSTEM', 0.5, {repeatable: 42})
+            .select(({p}) => ({name: p.name}));
+        expectStringifyToBe(
+            query,
+            'SELECT p.name AS name FROM posts AS p TABLESAMPLE SYSTEM (0.5) REPEATABLE (42)',
+        );
+    });
+});
+
+describe('unnest', () => {
+    const ids = array(constant('a'), constant('b'));
+    const ranks = array(number(1), number(2));
+
+    it('zips arrays into named columns', () => {
+        const query = unnest({name: ids, rank: ranks}).as('u')
+            .select(({u}) => ({name: u.name, rank: u.rank}));
+        expectStringifyToBe(
+            query,
+            "SELECT u.name AS name, u.rank AS rank FROM unnest(ARRAY['a', 'b'], ARRAY[1, 2]) AS u(name, rank)",
+        );
+    });
+
+    it('makes columns nullable when zipping several arrays', () => {
+        const asString = (e: Expression<string>) => e;
+        unnest({name: ids}).select(({unnest}) => ({name: asString(unnest.name)}));
+        // @ts-expect-error shorter arrays are padded with NULLs
+        unnest({name: ids, rank: ranks}).select(({unnest}) => ({name: asString(unnest.name)}));
+    });
+
+    it('adds an ordinality column', () => {
+        const query = unnest({name: ids}).withOrdinality()
+            .select(({unnest}) => ({name: unnest.name, n: unnest.ordinality}));
+        expectStringifyToBe(
+            query,
+            "SELECT unnest.name AS name, unnest.ordinality AS n FROM unnest(ARRAY['a', 'b']) WITH ORDINALITY "
+                + 'AS unnest(name, ordinality)',
+        );
+        const asNumber = (e: Expression<number>) => e;
+        unnest({name: ids}).withOrdinality().select(({unnest}) => ({n: asNumber(unnest.ordinality)}));
+        // @ts-expect-error name is a string
+        unnest({name: ids}).select(({unnest}) => ({n: asNumber(unnest.name)}));
+    });
+});
+
+describe('rowsFrom', () => {
+    it('serializes the functions side by side', () => {
+        const query = rowsFrom(
+            fromFunction<'generate_series', {generate_series: number}>('generate_series', [number(1), number(3)]),
+            fromFunction<'unnest', {unnest: string}>('unnest', [array(constant('a'))]),
+        ).withOrdinality().as('r').select(({r}) => ({n: r.generate_series, s: r.unnest, i: r.ordinality}));
+        expectStringifyToBe(
+            query,
+            'SELECT r.generate_series AS n, r.unnest AS s, r.ordinality AS i '
+                + "FROM ROWS FROM (generate_series(1, 3), unnest(ARRAY['a'])) WITH ORDINALITY AS r",
+        );
+    });
+
+    it('makes columns nullable when combining several functions', () => {
+        const series = fromFunction<'generate_series', {n: number}>('generate_series', [number(1), number(3)]);
+        const letters = fromFunction<'unnest', {s: string}>('unnest', [array(constant('a'))]);
+        const asNumber = (e: Expression<number>) => e;
+        const asNullable = (e: Expression<number | null>) => e;
+        rowsFrom(series).as('r').select(({r}) => ({n: asNumber(r.n)}));
+        rowsFrom(series, letters).as('r').select(({r}) => ({n: asNullable(r.n)}));
+        // @ts-expect-error shorter results are padded with NULLs
+        rowsFrom(series, letters).as('r').select(({r}) => ({n: asNumber(r.n)}));
+    });
+});
+
+describe('set operations', () => {
+    const drafts = table('drafts', {
+        id: sql.uuid.notNull(),
+        name: sql.text.notNull(),
+    });
+    const a = posts.select(({posts}) => ({name: posts.name}));
+    const b = drafts.select(({drafts}) => ({name: drafts.name}));
+    const c = posts.select(({posts}) => ({name: posts.name})).where(({posts}) => posts.word_count.eq(number(0)));
+    const [sa, sb] = ['SELECT posts.name AS name FROM posts', 'SELECT drafts.name AS name FROM drafts'];
+    const sc = 'SELECT posts.name AS name FROM posts WHERE (posts.word_count = 0)';
+
+    it('combines queries over different from_items', () => {
+        expectStringifyToBe(a.unionAll(b), `${sa} UNION ALL ${sb}`);
+    });
+
+    it('parenthesizes operands with their own ORDER BY or LIMIT', () => {
+        const query = a.union(b.orderBy(({drafts}) => [drafts.id]).limit(1));
+        expectStringifyToBe(query, `${sa} UNION (${sb} ORDER BY drafts.id LIMIT 1)`);
+        const left = a.orderBy(({posts}) => [posts.name]).union(b.union(c).limit(5));
+        expectStringifyToBe(left, `(${sa} ORDER BY posts.name) UNION (${sb} UNION ${sc} LIMIT 5)`);
+        expectStringifyToBe(a.limit(1).offset(2).except(b), `(${sa} LIMIT 1 OFFSET 2) EXCEPT ${sb}`);
+        expectStringifyToBe(a.union(b).limit(1).union(c), `(${sa} UNION ${sb} LIMIT 1) UNION ${sc}`);
+    });
+
+    it("doesn't allow locking clauses in operands", () => {
+        // @ts-expect-error FOR UPDATE is not allowed with UNION
+        a.for('UPDATE').union(b);
+    });
+
+    it('parenthesizes nested set operations only when needed', () => {
+        expectStringifyToBe(a.union(b).union(c), `${sa} UNION ${sb} UNION ${sc}`);
+        expectStringifyToBe(a.intersect(b).except(c), `${sa} INTERSECT ${sb} EXCEPT ${sc}`);
+        expectStringifyToBe(a.union(b).intersect(c), `(${sa} UNION ${sb}) INTERSECT ${sc}`);
+        expectStringifyToBe(a.except(b.union(c)), `${sa} EXCEPT (${sb} UNION ${sc})`);
+    });
+
+    it('orders the result by output columns', () => {
+        const query = a.union(b).orderBy(({name}) => [name.desc()]).limit(10);
+        expectStringifyToBe(query, `${sa} UNION ${sb} ORDER BY name DESC LIMIT 10`);
+        // @ts-expect-error only output columns can be referenced
+        expect(() => a.union(b).orderBy(({posts}) => [posts.name])).toThrow();
+        expectStringifyToBe(a.union(b).limit(1).as('u'), `(${sa} UNION ${sb} LIMIT 1) AS u`);
+    });
+});
+
+describe('windows', () => {
+    const byName = {partitionBy: ({posts}: {posts: {name: Expression<string>}}) => [posts.name]};
+
+    it('requires referenced windows to be declared', () => {
+        const query = posts.select(({posts}) => ({id: posts.id, n: rowNumber().over('w')}));
+        // @ts-expect-error w hasn't been declared yet
+        query.serialize();
+        expectStringifyToBe(
+            query.window('w').as(byName),
+            'SELECT posts.id AS id, row_number(*) OVER w AS n FROM posts WINDOW w AS (PARTITION BY posts.name)',
+        );
+        // @ts-expect-error v isn't the window that was referenced
+        query.window('v').as(byName).serialize();
+    });
+
+    it('checks windows referenced from derived expressions', () => {
+        const query = posts.select(() => ({n: rowNumber().over('w').add(number(1))}));
+        // @ts-expect-error w hasn't been declared yet
+        query.serialize();
+        expectStringifyToBe(
+            query.window('w').as(byName),
+            'SELECT (row_number(*) OVER w + 1) AS n FROM posts WINDOW w AS (PARTITION BY posts.name)',
+        );
+        const both = posts.select(() => ({
+            n: coalesce(rank().over('a'), number(0)),
+            c: caseWhen(constant(true), rowNumber().over('b')).else(number(0)),
+        }));
+        // @ts-expect-error b hasn't been declared
+        both.window('a').as(byName).serialize();
+        both.window('a').as(byName).window('b').as(byName).serialize();
+    });
+
+    it('only lets windows copy earlier windows', () => {
+        const query = posts.select(({posts}) => ({id: posts.id, r: rank().over('b')}))
+            .window('a').as(byName)
+            .window('b').as('a', {orderBy: ({posts}) => [posts.word_count]});
+        expectStringifyToBe(
+            query,
+            'SELECT posts.id AS id, rank(*) OVER b AS r FROM posts '
+            + 'WINDOW a AS (PARTITION BY posts.name), b AS (a ORDER BY posts.word_count)',
+        );
+        // @ts-expect-error c hasn't been declared
+        posts.select(({posts}) => ({id: posts.id})).window('b').as('c');
+    });
+
+    it('only lets a window be given an ORDER BY once', () => {
+        const ordered = posts.select(({posts}) => ({id: posts.id}))
+            .window('a').as({...byName, orderBy: ({posts}) => [posts.id]});
+        ordered.window('b').as('a', {frame: {type: 'ROWS', start: {type: 'UNBOUNDED PRECEDING'}}});
+        // @ts-expect-error a already has an ORDER BY
+        ordered.window('b').as('a', {orderBy: ({posts}) => [posts.word_count]});
+    });
+});
+
+describe('values', () => {
+    it('serializes as an aliased from_item', () => {
+        const ranks = values([
+            {name: constant('a'), rank: constant(1)},
+            {name: constant('b'), rank: constant(2)},
+        ], {name: sql.text.notNull(), rank: sql.number.notNull()}).as('ranks');
+        const query = posts.join(ranks, ({posts, ranks}) => posts.name.eq(ranks.name))
+            .select(({posts, ranks}) => ({id: posts.id, rank: ranks.rank}));
+        expectStringifyToBe(
+            query,
+            "SELECT posts.id AS id, ranks.rank AS rank FROM (posts INNER JOIN (VALUES ('a', 1), ('b', 2)) "
+                + 'AS ranks(name, rank) ON (posts.name = ranks.name))',
+        );
+    });
+
+    it('type-checks rows against the column types', () => {
+        // @ts-expect-error rank must be a number
+        values([{rank: constant('1')}], {rank: sql.number.notNull()});
+        // @ts-expect-error rank is missing
+        values([{}], {rank: sql.number.notNull()});
+    });
+
+    it('rejects an empty list', () => {
+        expect(() => values([], {rank: sql.number.notNull()})).toThrow();
+    });
+});
+
+describe('withQueries', () => {
+    it('serializes WITH and exposes each query as a from_item', () => {
+        const query = withQueries({
+            long: posts.select(({posts}) => ({id: posts.id, words: posts.word_count}))
+                .where(({posts}) => posts.word_count.gt(constant(1000))),
+        }, ({long}) => long.select(({long}) => ({id: long.id})).where(({long}) => long.words.lt(constant(5000))));
+        expectStringifyToBe(
+            query,
+            'WITH long AS (SELECT posts.id AS id, posts.word_count AS words FROM posts '
+                + 'WHERE (posts.word_count > 1000)) SELECT long.id AS id FROM long WHERE (long.words < 5000)',
+        );
+    });
+
+    it('supports materialization hints and aliases', () => {
+        const query = withQueries({
+            a: materialized(posts.select(({posts}) => ({id: posts.id}))),
+            b: notMaterialized(posts.select(({posts}) => ({name: posts.name}))),
+        }, ({a, b}) => a.as('x').crossJoin(b).select(({x, b}) => ({id: x.id, name: b.name})));
+        expectStringifyToBe(
+            query,
+            'WITH a AS MATERIALIZED (SELECT posts.id AS id FROM posts), '
+                + 'b AS NOT MATERIALIZED (SELECT posts.name AS name FROM posts) '
+                + 'SELECT x.id AS id, b.name AS name FROM (a AS x CROSS JOIN b)',
+        );
+    });
+
+    it('merges nested WITH clauses', () => {
+        const query = withQueries({a: posts.select(({posts}) => ({id: posts.id}))}, ({a}) =>
+            withQueries({b: a.select(({a}) => ({id: a.id}))}, ({b}) => b.select(({b}) => ({id: b.id}))));
+        expectStringifyToBe(
+            query,
+            'WITH a AS (SELECT posts.id AS id FROM posts), b AS (SELECT a.id AS id FROM a) '
+                + 'SELECT b.id AS id FROM b',
+        );
+    });
+
+    it('infers the row types of each query', () => {
+        withQueries({a: posts.select(({posts}) => ({id: posts.id}))}, ({a}) =>
+            // @ts-expect-error a has no name column
+            a.select(({a}) => ({name: a.name})));
+    });
+});
+
+describe('withRecursive', () => {
+    const comments = table('comments', {
+        id: sql.number.notNull(),
+        parent_id: sql.number.notNull(),
+        body: sql.text.notNull(),
+    });
+    const anchor = comments.select(({comments}) => ({id: comments.id, parent_id: comments.parent_id}))
+        .where(({comments}) => comments.id.eq(constant(1)));
+
+    it('serializes the anchor and recursive terms', () => {
+        const query = withRecursive('tree', anchor, tree =>
+            comments.join(tree, ({comments, tree}) => comments.parent_id.eq(tree.id))
+                .select(({comments}) => ({id: comments.id, parent_id: comments.parent_id})), 'UNION ALL')
+            .query(({tree}) => tree.select(({tree}) => ({id: tree.id})));
+        expectStringifyToBe(
+            query,
+            'WITH RECURSIVE tree AS (SELECT comments.id AS id, comments.parent_id AS parent_id FROM comments '
+                + 'WHERE (comments.id = 1) UNION ALL SELECT comments.id AS id, comments.parent_id AS '
+                + 'parent_id FROM (comments INNER JOIN tree ON (comments.parent_id = tree.id))) '
+                + 'SELECT tree.id AS id FROM tree',
+        );
+    });
+
+    it('serializes SEARCH and CYCLE', () => {
+        const query = withRecursive('tree', anchor, tree =>
+            comments.join(tree, ({comments, tree}) => comments.parent_id.eq(tree.id))
+                .select(({comments}) => ({id: comments.id, parent_id: comments.parent_id})))
+            .searchDepthFirst(['id'], 'ord')
+            .cycle(['id'], 'is_cycle', 'path')
+            .query(({tree}) => tree.select(({tree}) => ({id: tree.id, cyclic: tree.is_cycle}))
+                .orderBy(({tree}) => [tree.ord]));
+        expectStringifyToBe(
+            query,
+            'WITH RECURSIVE tree AS (SELECT comments.id AS id, comments.parent_id AS parent_id FROM comments '
+                + 'WHERE (comments.id = 1) UNION SELECT comments.id AS id, comments.parent_id AS '
+                + 'parent_id FROM (comments INNER JOIN tree ON (comments.parent_id = tree.id))) '
+                + 'SEARCH DEPTH FIRST BY id SET ord CYCLE id SET is_cycle USING path '
+                + 'SELECT tree.id AS id, tree.is_cycle AS cyclic FROM tree ORDER BY tree.ord',
+        );
+    });
+
+    it('parenthesizes an anchor with trailing clauses', () => {
+        const query = withRecursive('tree', anchor.limit(10), tree =>
+            tree.select(({tree}) => ({id: tree.parent_id, parent_id: tree.parent_id})))
+            .query(({tree}) => tree.select(({tree}) => ({id: tree.id})));
+        expectStringifyToBe(
+            query,
+            'WITH RECURSIVE tree AS ((SELECT comments.id AS id, comments.parent_id AS parent_id FROM comments '
+                + 'WHERE (comments.id = 1) LIMIT 10) UNION SELECT tree.parent_id AS id, '
+                + 'tree.parent_id AS parent_id FROM tree) SELECT tree.id AS id FROM tree',
+        );
+    });
+
+    it('requires the recursive term to match the anchor', () => {
+        // @ts-expect-error the recursive term is missing parent_id
+        withRecursive('tree', anchor, tree => tree.select(({tree}) => ({id: tree.id})));
+        // @ts-expect-error body is not a column of the anchor
+        withRecursive('tree', anchor, tree => tree.select(({tree}) => ({id: tree.id, parent_id: tree.body})));
+    });
+});
+
+const stringify = (s: Serializable): string => unlex(s.serialize());
+
+const expectStringifyToBe = (expr: Serializable, expected: string) => expect(stringify(expr)).toBe(expected);
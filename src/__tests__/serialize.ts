@@ -133,6 +133,11 @@ describe('Additional Serialization Tests', () => {
         expect(unlex(tokens)).toBe('SELECT col1, col2 FROM table WHERE id = 42');
     });
 
+    test('ALL is only attached to a following parenthesis', () => {
+        expect(unlex([keyWord('ALL'), specialCharacter('(')])).toBe('ALL(');
+        expect(unlex([keyWord('UNION'), keyWord('ALL'), keyWord('SELECT')])).toBe('UNION ALL SELECT');
+    });
+
     test('Literal strings with quotes are properly escaped', () => {
         const token = literal("O'Reilly");
         expect(unlex([token])).toBe("'O''Reilly'");
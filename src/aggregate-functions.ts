@@ -14,13 +14,13 @@ const define = <Args extends unknown[], Return>(name: string) =>
 // https://www.postgresql.org/docs/current/functions-aggregate.html#FUNCTIONS-AGGREGATE-TABLE
 
 /** Returns an arbitrary value from the non-null input values. */
-export const anyValue = <T>(t: Expression<T>): Expression<T> => new Aggregate('any_value', [t]);
+export const anyValue = <T>(t: Expression<T>): Aggregate<T> => new Aggregate('any_value', [t]);
 
 /**
  * Collects all the input values, including nulls, into an array. Concatenates all the input arrays into an array
  * of one higher dimension. (Array inputs must all have the same dimensionality, and cannot be empty or null.)
  */
-export const arrayAgg = <T>(t: Expression<T>): Expression<T[]> => new Aggregate('array_agg', [t]);
+export const arrayAgg = <T>(t: Expression<T>): Aggregate<T[]> => new Aggregate('array_agg', [t]);
 
 /** Computes the average (arithmetic mean) of all the non-null input values. */
 export const avg = define<[number], number>('avg');
@@ -113,10 +113,10 @@ export const max = define<[number], number>('max');
 export const min = define<[number], number>('min');
 
 /** Computes the union of the non-null input values. */
-export const rangeAgg = <T>(r: Expression<Range<T>>): Expression<MultiRange<T>> => new Aggregate('range_agg', [r]);
+export const rangeAgg = <T>(r: Expression<Range<T>>): Aggregate<MultiRange<T>> => new Aggregate('range_agg', [r]);
 
 /** Computes the intersection of the non-null input values. */
-export const rangeIntersectAgg = <T>(r: Expression<Range<T>>): Expression<Range<T>> =>
+export const rangeIntersectAgg = <T>(r: Expression<Range<T>>): Aggregate<Range<T>> =>
     new Aggregate('range_intersect_agg', [r]);
 
 /**
@@ -131,7 +131,7 @@ export const jsonbAggStrict = define<[unknown], Jsonb>('jsonb_agg_strict');
  * corresponding delimiter (if it's not null).
  */
 export const stringAgg
-    = <T extends Buffer | string>(value: Expression<T>, delimiter: Expression<T>): Expression<T> =>
+    = <T extends Buffer | string>(value: Expression<T>, delimiter: Expression<T>): Aggregate<T> =>
         new Aggregate<T>('string_agg', [value, delimiter]);
 
 /** Computes the sum of the non-null input values. */
@@ -1,8 +1,8 @@
 import {
-    Serializable, Token, commaSeparate, identifier, keyWord, literal, operator, specialCharacter,
+    Serializable, Token, commaSeparate, identifier, keyWord, literal, operator, qualifiedName, specialCharacter,
 } from './serialize';
-import { Subquery } from './select-types';
-import { Json, SQL, SqlType } from './types';
+import { FrameRef, InlineWindow, Subquery, WindowFrame } from './select-types';
+import { Interval, Json, SQL, SqlType } from './types';
 
 // Expression syntax taken from https://www.postgresql.org/docs/current/sql-expressions.html
 
@@ -14,10 +14,11 @@ export interface OrderArg<T = unknown> {
 }
 
 declare const __brand: unique symbol;
+declare const __windowNames: unique symbol;
 const expressionTag = Symbol();
 
 /** An Expression that won't be further manipulated. */
-interface FinalExpression<T> extends Serializable {
+export interface FinalExpression<T> extends Serializable {
     // This type is needed because Expression is invariant in its type, but we sometimes want a covariant
     // expression purely for type-checking purposes
     readonly [expressionTag]: true;
@@ -26,6 +27,21 @@ interface FinalExpression<T> extends Serializable {
 
 export type UnknownExpr = FinalExpression<unknown>;
 
+/**
+ * Records the WINDOW clause windows a window call refers to, so that the query can check they're declared.
+ * Arithmetic, concatenation, `coalesce`, `nullif`, `greatest`, `least` and CASE keep the names of their operands.
+ * Other expressions built from a window call, such as comparisons or casts, lose them, and so do ORDER BY
+ * clauses, so windows referenced only there aren't checked.
+ */
+export interface WindowNames<Names extends string> {
+    readonly [__windowNames]?: () => Names;
+}
+
+type NamesOf<E> = E extends WindowNames<infer Names> ? Names : never;
+
+/** An expression built from `Operands`, which keeps their window names. */
+export type Derived<T, Operands> = Expression<T> & WindowNames<NamesOf<Operands>>;
+
 interface SingleTypeSubquery<Value> extends Serializable {
     /** Unused field to track subquery type. */
     _tuple: Record<string, FinalExpression<Value>>;
@@ -46,9 +62,61 @@ export interface Expression<T> {
     le: (this: Expression<T & number>, other: Expression<T>) => Expression<boolean>;
     gt: (this: Expression<T & number>, other: Expression<T>) => Expression<boolean>;
     ge: (this: Expression<T & number>, other: Expression<T>) => Expression<boolean>;
+    between: (low: Expression<T>, high: Expression<T>) => Expression<boolean>;
+    notBetween: (low: Expression<T>, high: Expression<T>) => Expression<boolean>;
+    /** Like BETWEEN, but the bounds may be given in either order. */
+    betweenSymmetric: (low: Expression<T>, high: Expression<T>) => Expression<boolean>;
+    notBetweenSymmetric: (low: Expression<T>, high: Expression<T>) => Expression<boolean>;
     like: (this: Expression<T & string>, other: Expression<string>) => Expression<boolean>;
     ilike: (this: Expression<T & string>, other: Expression<string>) => Expression<boolean>;
     collate: (this: Expression<T & string>, collation: string) => Expression<string>;
+
+    // https://www.postgresql.org/docs/current/functions-math.html
+    // https://www.postgresql.org/docs/current/functions-datetime.html
+    add: {
+        <S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>;
+        <S extends Expression<T & Date>, O extends Expression<Interval>>(this: S, other: O): Derived<Date, S | O>;
+        <S extends Expression<T & Interval>, O extends Expression<Date>>(this: S, other: O): Derived<Date, S | O>;
+        <S extends Expression<T & Interval>, O extends Expression<Interval>>(this: S, other: O):
+        Derived<Interval, S | O>;
+    };
+    sub: {
+        <S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>;
+        <S extends Expression<T & Date>, O extends Expression<Interval>>(this: S, other: O): Derived<Date, S | O>;
+        <S extends Expression<T & Date>, O extends Expression<Date>>(this: S, other: O): Derived<Interval, S | O>;
+        <S extends Expression<T & Interval>, O extends Expression<Interval>>(this: S, other: O):
+        Derived<Interval, S | O>;
+    };
+    mul: {
+        <S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>;
+        <S extends Expression<T & number>, O extends Expression<Interval>>(this: S, other: O):
+        Derived<Interval, S | O>;
+        <S extends Expression<T & Interval>, O extends Expression<number>>(this: S, other: O):
+        Derived<Interval, S | O>;
+    };
+    div: {
+        <S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>;
+        <S extends Expression<T & Interval>, O extends Expression<number>>(this: S, other: O):
+        Derived<Interval, S | O>;
+    };
+    mod: <S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O) => Derived<T, S | O>;
+    pow: <S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O) => Derived<T, S | O>;
+    bitAnd: <S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O) => Derived<T, S | O>;
+    bitOr: <S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O) => Derived<T, S | O>;
+    bitXor: <S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O) => Derived<T, S | O>;
+    bitNot: <S extends Expression<T & number>>(this: S) => Derived<T, S>;
+    shiftLeft: <S extends Expression<T & number>, O extends Expression<number>>(this: S, bits: O) =>
+    Derived<T, S | O>;
+    shiftRight: <S extends Expression<T & number>, O extends Expression<number>>(this: S, bits: O) =>
+    Derived<T, S | O>;
+    concat: {
+        <S extends Expression<T & string>, O extends Expression<string>>(this: S, other: O):
+        Derived<string, S | O>;
+        <E, N extends string = never, O extends Expression<E[]> | Expression<E> = Expression<E>>(
+            this: Expression<E[]> & WindowNames<N>, other: O,
+        ): Derived<E[], WindowNames<N> | O>;
+    };
+
     castAs: <T2>(type: SqlType<T2>) => Expression<T2>;
     in: ((...values: Expression<T>[]) => Expression<boolean>)
         & ((subquery: SingleTypeSubquery<T>) => Expression<boolean>);
@@ -94,6 +162,14 @@ abstract class BaseExpr<T> implements Expression<T> {
         { return new InfixExpr(this, '>', other); }
     ge(this: Expression<T & number>, other: Expression<T>): Expression<boolean>
         { return new InfixExpr(this, '>=', other); }
+    between(low: Expression<T>, high: Expression<T>): Expression<boolean>
+        { return new BetweenExpr(this, 'BETWEEN', low, high); }
+    notBetween(low: Expression<T>, high: Expression<T>): Expression<boolean>
+        { return new BetweenExpr(this, 'NOT BETWEEN', low, high); }
+    betweenSymmetric(low: Expression<T>, high: Expression<T>): Expression<boolean>
+        { return new BetweenExpr(this, 'BETWEEN SYMMETRIC', low, high); }
+    notBetweenSymmetric(low: Expression<T>, high: Expression<T>): Expression<boolean>
+        { return new BetweenExpr(this, 'NOT BETWEEN SYMMETRIC', low, high); }
     like(this: Expression<T & string>, other: Expression<string>): Expression<boolean>
         { return new InfixExpr(this, 'LIKE', other); }
     ilike(this: Expression<T & string>, other: Expression<string>): Expression<boolean>
@@ -101,6 +177,57 @@ abstract class BaseExpr<T> implements Expression<T> {
     collate(this: Expression<T & string>, collation: string): Expression<string>
         { return new InfixExpr(this, 'COLLATE', new CollationIdentifier(collation)); }
 
+    add<S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>;
+    add<S extends Expression<T & Date>, O extends Expression<Interval>>(this: S, other: O): Derived<Date, S | O>;
+    add<S extends Expression<T & Interval>, O extends Expression<Date>>(this: S, other: O): Derived<Date, S | O>;
+    add<S extends Expression<T & Interval>, O extends Expression<Interval>>(this: S, other: O):
+    Derived<Interval, S | O>;
+    add<L, R>(this: Expression<L>, other: Expression<R>): UnknownExpr
+        { return new InfixExpr(this, '+', other); }
+    sub<S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>;
+    sub<S extends Expression<T & Date>, O extends Expression<Interval>>(this: S, other: O): Derived<Date, S | O>;
+    sub<S extends Expression<T & Date>, O extends Expression<Date>>(this: S, other: O): Derived<Interval, S | O>;
+    sub<S extends Expression<T & Interval>, O extends Expression<Interval>>(this: S, other: O):
+    Derived<Interval, S | O>;
+    sub<L, R>(this: Expression<L>, other: Expression<R>): UnknownExpr
+        { return new InfixExpr(this, '-', other); }
+    mul<S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>;
+    mul<S extends Expression<T & number>, O extends Expression<Interval>>(this: S, other: O):
+    Derived<Interval, S | O>;
+    mul<S extends Expression<T & Interval>, O extends Expression<number>>(this: S, other: O):
+    Derived<Interval, S | O>;
+    mul<L, R>(this: Expression<L>, other: Expression<R>): UnknownExpr
+        { return new InfixExpr(this, '*', other); }
+    // Division of integer types truncates towards zero
+    div<S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>;
+    div<S extends Expression<T & Interval>, O extends Expression<number>>(this: S, other: O):
+    Derived<Interval, S | O>;
+    div<L, R>(this: Expression<L>, other: Expression<R>): UnknownExpr
+        { return new InfixExpr(this, '/', other); }
+    mod<S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>
+        { return new InfixExpr(this, '%', other); }
+    pow<S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>
+        { return new InfixExpr(this, '^', other); }
+    bitAnd<S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>
+        { return new InfixExpr(this, '&', other); }
+    bitOr<S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>
+        { return new InfixExpr(this, '|', other); }
+    bitXor<S extends Expression<T & number>, O extends Expression<T>>(this: S, other: O): Derived<T, S | O>
+        { return new InfixExpr(this, '#', other); }
+    bitNot<S extends Expression<T & number>>(this: S): Derived<T, S>
+        { return new PrefixExpr('~', this); }
+    shiftLeft<S extends Expression<T & number>, O extends Expression<number>>(this: S, bits: O): Derived<T, S | O>
+        { return new InfixExpr(this, '<<', bits); }
+    shiftRight<S extends Expression<T & number>, O extends Expression<number>>(this: S, bits: O): Derived<T, S | O>
+        { return new InfixExpr(this, '>>', bits); }
+    concat<S extends Expression<T & string>, O extends Expression<string>>(this: S, other: O):
+    Derived<string, S | O>;
+    concat<E, N extends string = never, O extends Expression<E[]> | Expression<E> = Expression<E>>(
+        this: Expression<E[]> & WindowNames<N>, other: O,
+    ): Derived<E[], WindowNames<N> | O>;
+    concat<L, R>(this: Expression<L>, other: Expression<R>): UnknownExpr
+        { return new InfixExpr(this, '||', other); }
+
     castAs<T2>(type: SqlType<T2>): Expression<T2>
         { return new Cast(this, type.name); }
     in(subquery: SingleTypeSubquery<T>): Expression<boolean>;
@@ -160,6 +287,30 @@ class AnyOrAllExpr<L, T> extends BaseExpr<boolean> {
     }
 }
 
+// https://www.postgresql.org/docs/current/functions-comparison.html
+class BetweenExpr<T> extends BaseExpr<boolean> {
+    constructor(
+        private value: Expression<T>,
+        private keyword: 'BETWEEN' | 'NOT BETWEEN' | 'BETWEEN SYMMETRIC' | 'NOT BETWEEN SYMMETRIC',
+        private low: Expression<T>,
+        private high: Expression<T>,
+    ) {
+        super();
+    }
+
+    serialize(): Token[] {
+        return [
+            specialCharacter('('),
+            ...this.value.serialize(),
+            keyWord(this.keyword),
+            ...this.low.serialize(),
+            keyWord('AND'),
+            ...this.high.serialize(),
+            specialCharacter(')'),
+        ];
+    }
+}
+
 export class SubqueryExpr<Value> extends BaseExpr<Value> {
     constructor(private subquery: SingleTypeSubquery<Value>) {
         super();
@@ -277,15 +428,14 @@ class MultiOperandExpr<L, R, T> extends BaseExpr<T> {
 }
 
 class FuncExpr<T> extends BaseExpr<T> {
-    constructor(private functionName: string, private args: FinalExpression<unknown>[]) {
+    constructor(private functionName: string, private args: FinalExpression<unknown>[], private schema?: string) {
         super();
     }
 
     serialize(): Token[] {
-        const fn = this.functionName;
         const values = this.args.map(arg => arg.serialize());
         return [
-            identifier(fn),
+            ...qualifiedName(this.schema, this.functionName),
             specialCharacter('('),
             ...commaSeparate(values),
             specialCharacter(')'),
@@ -293,10 +443,19 @@ class FuncExpr<T> extends BaseExpr<T> {
     }
 }
 
-export const func = <T>(name: string, args: FinalExpression<unknown>[]): Expression<T> => new FuncExpr(name, args);
+export const func
+    = <T>(name: string, args: FinalExpression<unknown>[], options?: {schema?: string}): Expression<T> =>
+        new FuncExpr(name, args, options?.schema);
 
 export const not = (arg: Expression<boolean>): Expression<boolean> => new PrefixExpr('not', arg);
 
+/** Postgres doesn't support DISTINCT or ORDER BY in aggregates used as window functions. */
+interface NonWindowAggregate<T> extends Expression<T> {
+    distinct: () => NonWindowAggregate<T>;
+    orderBy: (order: OrderArg[]) => NonWindowAggregate<T>;
+    filterWhere: (filter: Expression<boolean>) => Expression<T>;
+}
+
 /** Aggregates not using WITHIN GROUP. */
 export class Aggregate<T> extends BaseExpr<T> {
     constructor(private functionName: string, private args: UnknownExpr[], private doDistinct?: boolean,
@@ -308,22 +467,26 @@ export class Aggregate<T> extends BaseExpr<T> {
         super();
     }
 
-    distinct() {
+    distinct(): NonWindowAggregate<T> {
         return new Aggregate(this.functionName, this.args, true, this.order, this.filter);
     }
 
-    orderBy(order: OrderArg[]) {
+    orderBy(order: OrderArg[]): NonWindowAggregate<T> {
         return new Aggregate(this.functionName, this.args, this.doDistinct, order, this.filter);
     }
 
-    filterWhere(filter: Expression<boolean>): Expression<T> {
+    filterWhere(filter: Expression<boolean>): Omit<Aggregate<T>, 'distinct' | 'orderBy' | 'filterWhere'> {
         return new Aggregate(this.functionName, this.args, this.doDistinct, this.order, filter);
     }
 
-    // TODO: Add an over method to convert the aggregate into a window function: In addition to these functions,
-    // any built-in or user-defined ordinary aggregate (i.e., not ordered-set or hypothetical-set aggregates) can
-    // be used as a window function... Aggregate functions act as window functions only when an OVER clause follows
-    // the call https://www.postgresql.org/docs/current/functions-window.html
+    // Any built-in or user-defined ordinary aggregate (i.e., not ordered-set or hypothetical-set aggregates) can
+    // be used as a window function https://www.postgresql.org/docs/current/functions-window.html
+    over(window: InlineWindow): Expression<T>;
+    over<Name extends string>(existingWindowName: Name, params?: Omit<InlineWindow, 'partitionBy'>):
+    Expression<T> & WindowNames<Name>;
+    over(arg1: string | InlineWindow, arg2?: Omit<InlineWindow, 'partitionBy'>): Expression<T> {
+        return new WindowCall(this.functionName, this.args, resolveWindow(arg1, arg2), this.filter);
+    }
 
     serialize(): Token[] {
         const fn = this.functionName;
@@ -470,9 +633,8 @@ export function agg<T>(name: string, args: Expression<unknown>[], _?: string, or
 }
 
 class WindowCall<T> extends BaseExpr<T> {
-    // TODO: Support inline definitions
-    constructor(private functionName: string, private args: Expression<unknown>[], private over: string,
-                private filter?: Expression<boolean>) {
+    constructor(private functionName: string, private args: UnknownExpr[],
+                private over: string | WindowBody, private filter?: Expression<boolean>) {
         super();
     }
 
@@ -487,7 +649,9 @@ class WindowCall<T> extends BaseExpr<T> {
             specialCharacter(')'),
             ...filter,
             keyWord('OVER'),
-            identifier(this.over),
+            ...(typeof this.over === 'string'
+                ? [identifier(this.over)]
+                : [specialCharacter('('), ...serializeWindowBody(this.over), specialCharacter(')')]),
         ];
     }
 }
@@ -499,11 +663,27 @@ export class PartialWindowCall<T> {
         return new PartialWindowCall<T>(this.name, this.args, filter);
     }
 
-    over(window: string): Expression<T> { // TODO: support inline window definitions
-        return new WindowCall(this.name, this.args, window, this.filter);
+    over(window: InlineWindow): Expression<T>;
+    /** Use a window from the WINDOW clause, optionally adding an ORDER BY or frame clause to it. */
+    over<Name extends string>(existingWindowName: Name, params?: Omit<InlineWindow, 'partitionBy'>):
+    Expression<T> & WindowNames<Name>;
+    over(arg1: string | InlineWindow, arg2?: Omit<InlineWindow, 'partitionBy'>): Expression<T> {
+        return new WindowCall(this.name, this.args, resolveWindow(arg1, arg2), this.filter);
     }
 }
 
+function resolveWindow(
+    arg1: string | InlineWindow, arg2?: Omit<InlineWindow, 'partitionBy'>,
+): string | WindowBody {
+    if (typeof arg1 === 'string' && arg2 === undefined) return arg1;
+    const {orderBy, frame} = typeof arg1 === 'string' ? arg2! : arg1;
+    return {
+        ...(typeof arg1 === 'string' ? {existingWindowName: arg1} : {partitionBy: arg1.partitionBy}),
+        orderBy: orderBy && resolveOrderArgs(orderBy),
+        frame,
+    };
+}
+
 class Cast<Orig, NewType> extends BaseExpr<NewType> {
     constructor(private expression: Expression<Orig>, private toType: string) {
         super();
@@ -546,7 +726,96 @@ export function array<T>(...args: [Subquery<T>] | Expression<T>[]): Expression<T
 export const row = <T extends unknown[]>(...args: {[I in keyof T]: Expression<T[I]>}): Expression<T> =>
     new FuncExpr('ROW', args);
 
-export const exists = (subquery: Subquery<unknown>) => new FuncExpr<boolean>('EXISTS', [subquery.scalar()]);
+// Unlike a scalar subquery, the subquery of EXISTS may return any number of columns
+class ExistsExpr extends BaseExpr<boolean> {
+    constructor(private subquery: Serializable) {
+        super();
+    }
+
+    serialize(): Token[] {
+        return [
+            keyWord('EXISTS'),
+            specialCharacter('('),
+            ...this.subquery.serialize(),
+            specialCharacter(')'),
+        ];
+    }
+}
+
+export const exists = <T>(subquery: Subquery<T>): Expression<boolean> => new ExistsExpr(subquery);
+
+// https://www.postgresql.org/docs/current/functions-conditional.html#FUNCTIONS-CASE
+
+class CaseExpr<T> extends BaseExpr<T> {
+    constructor(protected subject: UnknownExpr | undefined, protected branches: [UnknownExpr, UnknownExpr][],
+                private otherwise?: UnknownExpr) {
+        super();
+    }
+
+    serialize(): Token[] {
+        const subject = this.subject?.serialize() ?? [];
+        const branches = this.branches.flatMap(([match, value]) => [
+            keyWord('WHEN'),
+            ...match.serialize(),
+            keyWord('THEN'),
+            ...value.serialize(),
+        ]);
+        const otherwise = this.otherwise ? [keyWord('ELSE'), ...this.otherwise.serialize()] : [];
+        return [keyWord('CASE'), ...subject, ...branches, ...otherwise, keyWord('END')];
+    }
+}
+
+type ValueOf<E> = E extends FinalExpression<infer T> ? T : never;
+type ValuesOf<Args> = {[I in keyof Args]: ValueOf<Args[I]>};
+
+/** A CASE expression without an ELSE, which is null when no branch matches. */
+export class Case<Match, T, Operands = never> extends CaseExpr<T | null> {
+    declare readonly [__windowNames]?: () => NamesOf<Operands>;
+
+    when<M extends Expression<Match>, V extends UnknownExpr>(match: M, value: V):
+    Case<Match, T | ValueOf<V>, Operands | M | V> {
+        return new Case(this.subject, [...this.branches, [match, value]]);
+    }
+
+    else<V extends UnknownExpr>(value: V): Derived<T | ValueOf<V>, Operands | V> {
+        return new CaseExpr(this.subject, this.branches, value);
+    }
+}
+
+/** CASE WHEN condition THEN value ... */
+export const caseWhen = <C extends Expression<boolean>, V extends UnknownExpr>(condition: C, value: V):
+Case<boolean, ValueOf<V>, C | V> => new Case(undefined, [[condition, value]]);
+
+/** CASE subject WHEN match THEN value ..., comparing the subject to each match in turn. */
+export const caseOf = <S extends UnknownExpr>(subject: S) => ({
+    when: <M extends Expression<ValueOf<S>>, V extends UnknownExpr>(match: M, value: V):
+    Case<ValueOf<S>, ValueOf<V>, S | M | V> => new Case(subject, [[match, value]]),
+});
+
+/** Null only if every argument is null, so any non-nullable argument makes the result non-nullable. */
+type Coalesced<T extends unknown[]> = [{[I in keyof T]: null extends T[I] ? never : I}[number]] extends [never]
+    ? T[number]
+    : Exclude<T[number], null>;
+
+/** The first of its arguments that isn't null. */
+export const coalesce = <Args extends [UnknownExpr, ...UnknownExpr[]]>(...args: Args):
+Derived<Coalesced<ValuesOf<Args>>, Args[number]> => new FuncExpr('COALESCE', args);
+
+/** Null if both arguments are equal, otherwise the first argument. */
+export const nullif = <V extends UnknownExpr, O extends Expression<ValueOf<V>>>(value: V, other: O):
+Derived<ValueOf<V> | null, V | O> => new FuncExpr('NULLIF', [value, other]);
+
+/** Arguments that can be compared with each other: their types must match, apart from null. */
+type Comparable<Args extends UnknownExpr[]> =
+    [UnknownExpr, ...FinalExpression<NonNullable<ValueOf<Args[0]>> | null>[]];
+
+/** The largest argument, ignoring nulls. */
+export const greatest = <Args extends Comparable<Args>>(...args: Args):
+Derived<Coalesced<ValuesOf<Args>>, Args[number]> => new FuncExpr('GREATEST', args);
+
+/** The smallest argument, ignoring nulls. */
+export const least = <Args extends Comparable<Args>>(...args: Args):
+Derived<Coalesced<ValuesOf<Args>>, Args[number]> => new FuncExpr('LEAST', args);
 
 class Field<T> extends BaseExpr<T> {
     constructor(private tableName: string, private name: string) {
@@ -564,6 +833,19 @@ class Field<T> extends BaseExpr<T> {
 
 export const field = <T>(tableName: string, name: string): Expression<T> => new Field(tableName, name);
 
+class OutputColumn<T> extends BaseExpr<T> {
+    constructor(private name: string) {
+        super();
+    }
+
+    serialize(): Token[] {
+        return [identifier(this.name)];
+    }
+}
+
+/** A reference to an output column by name, as used by ORDER BY on the result of a set operation. */
+export const outputColumn = <T>(name: string): Expression<T> => new OutputColumn(name);
+
 class ParameterExpr<T> extends BaseExpr<T> {
     constructor(private index: number) {
         super();
@@ -600,16 +882,48 @@ function serializeFilterWhere(expr: Expression<boolean> | undefined): Token[] {
 }
 
 function serializeOrderBy(args: OrderArg[]): Token[] {
-    return commaSeparate(args.map(({expr, order, nulls}): Token[] => [
-        ...expr.serialize(),
-        ...(order ? serializeOrder(order) : []),
-        ...(nulls ? [keyWord('NULLS'), keyWord(nulls)] : []),
-    ]));
+    return commaSeparate(args.map(serializeOrderArg));
+}
 
-    function serializeOrder(order: Order): Token[] {
-        return [
-            keyWord(order.key),
-            ...(order.key === 'USING' ? [identifier(order.op)] : []),
-        ];
+export function serializeOrderArg(arg: OrderArg): Token[] {
+    const ret: Token[] = [...arg.expr.serialize()];
+    if (arg.order?.key === 'USING') ret.push(keyWord('USING'), identifier(arg.order.op));
+    else if (arg.order) ret.push(keyWord(arg.order.key));
+    if (arg.nulls) ret.push(keyWord(arg.nulls));
+    return ret;
+}
+
+export function resolveOrderArgs(args: (UnknownExpr | OrderArg)[]): OrderArg[] {
+    return args.map(arg => isFinalExpression(arg) ? {expr: arg} : arg);
+}
+
+/** The contents of a window definition, shared by the WINDOW clause and inline OVER (...) clauses. */
+export interface WindowBody {
+    existingWindowName?: string;
+    partitionBy?: UnknownExpr[];
+    orderBy?: OrderArg[];
+    frame?: WindowFrame;
+}
+
+export function serializeWindowBody({existingWindowName, partitionBy, orderBy, frame}: WindowBody): Token[] {
+    const ret: Token[] = [];
+    if (existingWindowName !== undefined) ret.push(identifier(existingWindowName));
+    if (partitionBy) ret.push(keyWord('PARTITION BY'), ...commaSeparate(partitionBy.map(e => e.serialize())));
+    if (orderBy) ret.push(keyWord('ORDER BY'), ...serializeOrderBy(orderBy));
+    if (frame) {
+        ret.push(keyWord(frame.type));
+        if (frame.end === undefined) {
+            ret.push(...serializeFrameRef(frame.start));
+        } else {
+            ret.push(keyWord('BETWEEN'), ...serializeFrameRef(frame.start));
+            ret.push(keyWord('AND'), ...serializeFrameRef(frame.end));
+        }
+        if (frame.exclusion) ret.push(keyWord(frame.exclusion));
+    }
+    return ret;
+
+    function serializeFrameRef(ref: FrameRef): Token[] {
+        if (ref.type === 'PRECEDING' || ref.type === 'FOLLOWING') return [literal(ref.offset), keyWord(ref.type)];
+        return [keyWord(ref.type)];
     }
 }
@@ -0,0 +1,110 @@
+import { Expression } from './expression';
+import { Assignments, InsertRow, NoExtraColumns, Row, serializeAssignments, serializeValues } from './modify';
+import { TupleMap } from './select-types';
+import { Serializable, Token, keyWord } from './serialize';
+import { tupleMap } from './tuples';
+import { assertNever } from './utils';
+
+// https://www.postgresql.org/docs/current/sql-merge.html
+
+type BoolExpr = Expression<boolean>;
+
+type MergeAction = {type: 'update'; set: Row} | {type: 'delete'} | {type: 'insert'; row: Row} | {type: 'nothing'};
+
+interface WhenClause {
+    matched: boolean;
+    cond?: BoolExpr;
+    action: MergeAction;
+}
+
+export class Merge<Alias extends string, RowType, Defaults extends keyof RowType, Source> {
+    protected constructor(private target: Serializable, private source: Serializable, private on: BoolExpr,
+                          private whens: WhenClause[]) {}
+
+    static make<Alias extends string, RowType, Defaults extends keyof RowType, Source>(
+        target: Serializable,
+        source: Serializable,
+        on: BoolExpr,
+    ) {
+        return new Merge<Alias, RowType, Defaults, Source>(target, source, on, []);
+    }
+
+    /** Add a WHEN MATCHED clause. Both the target and source rows are available. */
+    whenMatched(cond?: (t: TupleMap<Record<Alias, RowType> & Source>) => BoolExpr):
+    MergeWhenMatched<Alias, RowType, Source, Merge<Alias, RowType, Defaults, Source>> {
+        const condExpr = cond?.(tupleMap());
+        return new MergeWhenMatched(action => this.addWhen({matched: true, cond: condExpr, action}));
+    }
+
+    /** Add a WHEN NOT MATCHED clause. Only the source row is available. */
+    whenNotMatched(cond?: (t: TupleMap<Source>) => BoolExpr):
+    MergeWhenNotMatched<RowType, Defaults, Source, Merge<Alias, RowType, Defaults, Source>> {
+        const condExpr = cond?.(tupleMap());
+        return new MergeWhenNotMatched(action => this.addWhen({matched: false, cond: condExpr, action}));
+    }
+
+    private addWhen(when: WhenClause) {
+        return new Merge<Alias, RowType, Defaults, Source>(this.target, this.source, this.on,
+                                                           this.whens.concat(when));
+    }
+
+    serialize(): Token[] {
+        if (this.whens.length === 0) throw new Error('MERGE requires at least one WHEN clause');
+        const parts: Token[] = [
+            keyWord('MERGE INTO'),
+            ...this.target.serialize(),
+            keyWord('USING'),
+            ...this.source.serialize(),
+            keyWord('ON'),
+            ...this.on.serialize(),
+        ];
+        for (const {matched, cond, action} of this.whens) {
+            parts.push(keyWord(matched ? 'WHEN MATCHED' : 'WHEN NOT MATCHED'));
+            if (cond) parts.push(keyWord('AND'), ...cond.serialize());
+            parts.push(keyWord('THEN'), ...serializeAction(action));
+        }
+        return parts;
+    }
+}
+
+class MergeWhenMatched<Alias extends string, RowType, Source, Next> {
+    constructor(private onFinish: (action: MergeAction) => Next) {}
+
+    thenUpdate<S extends Assignments<RowType> & NoExtraColumns<RowType, S>>(
+        set: (t: TupleMap<Record<Alias, RowType> & Source>) => S,
+    ): Next {
+        return this.onFinish({type: 'update', set: set(tupleMap())});
+    }
+
+    thenDelete(): Next {
+        return this.onFinish({type: 'delete'});
+    }
+
+    thenDoNothing(): Next {
+        return this.onFinish({type: 'nothing'});
+    }
+}
+
+class MergeWhenNotMatched<RowType, Defaults extends keyof RowType, Source, Next> {
+    constructor(private onFinish: (action: MergeAction) => Next) {}
+
+    thenInsert<S extends InsertRow<RowType, Defaults> & NoExtraColumns<RowType, S>>(
+        row: (t: TupleMap<Source>) => S,
+    ): Next {
+        return this.onFinish({type: 'insert', row: row(tupleMap())});
+    }
+
+    thenDoNothing(): Next {
+        return this.onFinish({type: 'nothing'});
+    }
+}
+
+function serializeAction(action: MergeAction): Token[] {
+    switch (action.type) {
+        case 'update': return [keyWord('UPDATE'), keyWord('SET'), ...serializeAssignments(action.set)];
+        case 'delete': return [keyWord('DELETE')];
+        case 'insert': return [keyWord('INSERT'), ...serializeValues([action.row])];
+        case 'nothing': return [keyWord('DO NOTHING')];
+        default: assertNever(action, 'Invalid merge action received ' + (action as any)?.type);
+    }
+}
@@ -0,0 +1,249 @@
+import { Expression, FinalExpression, UnknownExpr } from './expression';
+import { From, ReturningStatement, Subquery, Tuple, TupleMap } from './select-types';
+import { Serializable, Token, commaSeparate, identifier, keyWord, operator, specialCharacter } from './serialize';
+import { serializeOutputList, tupleMap } from './tuples';
+
+// https://www.postgresql.org/docs/current/sql-insert.html
+// https://www.postgresql.org/docs/current/sql-update.html
+// https://www.postgresql.org/docs/current/sql-delete.html
+
+type BoolExpr = Expression<boolean>;
+
+type NullableKeys<RowType> = {[K in keyof RowType]-?: null extends RowType[K] ? K : never}[keyof RowType];
+type OptionalKeys<RowType, Defaults extends keyof RowType> = Defaults | NullableKeys<RowType>;
+
+/** A row to insert. Columns that are nullable or have a default may be omitted and will be set to DEFAULT. */
+export type InsertRow<RowType, Defaults extends keyof RowType>
+    = {[K in Exclude<keyof RowType, OptionalKeys<RowType, Defaults>>]: FinalExpression<RowType[K]>}
+    & {[K in OptionalKeys<RowType, Defaults>]?: FinalExpression<RowType[K]>};
+
+/**
+ * The row type of a subquery to insert from. It must have the same columns as an InsertRow, and no columns that
+ * are missing from the table.
+ */
+export type InsertTuple<RowType, Defaults extends keyof RowType, SelectTuple>
+    = {[K in Exclude<keyof RowType, OptionalKeys<RowType, Defaults>>]: RowType[K]}
+    & {[K in OptionalKeys<RowType, Defaults>]?: RowType[K]}
+    & {[K in Exclude<keyof SelectTuple, keyof RowType>]: never};
+
+/** The SET clause of an UPDATE. Each value must have the type of the column it is assigned to. */
+export type Assignments<RowType> = {[K in keyof RowType]?: FinalExpression<RowType[K]>};
+
+/**
+ * Rejects keys that aren't columns of the table. Object literals returned from callbacks escape TS's excess
+ * property checks, so the returned type is inferred as `S` and checked against this instead.
+ */
+export type NoExtraColumns<RowType, S> = {[K in Exclude<keyof S, keyof RowType>]: never};
+
+export type Row = {[column: string]: UnknownExpr | undefined};
+
+type ConflictTarget = {type: 'columns'; columns: string[]} | {type: 'constraint'; name: string};
+type ConflictAction = {type: 'nothing'} | {type: 'update'; set: Row; where?: BoolExpr};
+interface OnConflictClause {
+    target?: ConflictTarget;
+    action: ConflictAction;
+}
+
+type ResolvedInsert<Alias extends string, RowType, Key extends readonly (keyof RowType)[]>
+    = Omit<Insert<Alias, RowType, Key>, 'onConflict' | 'onConflictOnConstraint'>;
+
+export class Insert<Alias extends string, RowType, Key extends readonly (keyof RowType)[] = never> {
+    protected constructor(private target: Serializable, private source: Row[] | Subquery<unknown>,
+                          private conflict?: OnConflictClause) {}
+
+    static make<Alias extends string, RowType, Key extends readonly (keyof RowType)[] = never>(
+        target: Serializable,
+        source: Row[] | Subquery<unknown>,
+    ) {
+        if (Array.isArray(source) && source.length === 0) throw new Error('INSERT requires at least one row');
+        return new Insert<Alias, RowType, Key>(target, source);
+    }
+
+    /**
+     * Add an ON CONFLICT clause. The conflict target must be one of the keys declared on the table. DO UPDATE
+     * requires a conflict target, so it is only available when one is given.
+     */
+    onConflict(): Omit<OnConflict<Alias, RowType, ResolvedInsert<Alias, RowType, Key>>, 'doUpdate'>;
+    onConflict(columns: Key): OnConflict<Alias, RowType, ResolvedInsert<Alias, RowType, Key>>;
+    onConflict(columns?: Key) {
+        const target = columns && {type: 'columns' as const, columns: columns.map(String)};
+        return new OnConflict<Alias, RowType, ResolvedInsert<Alias, RowType, Key>>(target, c => this.resolve(c));
+    }
+
+    onConflictOnConstraint(name: string): OnConflict<Alias, RowType, ResolvedInsert<Alias, RowType, Key>> {
+        const target = {type: 'constraint' as const, name};
+        return new OnConflict<Alias, RowType, ResolvedInsert<Alias, RowType, Key>>(target, c => this.resolve(c));
+    }
+
+    returning<SelectTuple>(proj: (t: TupleMap<Record<Alias, RowType>>) => Tuple<SelectTuple>):
+    Returning<SelectTuple> {
+        return new Returning(this, proj(tupleMap()));
+    }
+
+    private resolve(conflict: OnConflictClause) {
+        return new Insert<Alias, RowType, Key>(this.target, this.source, conflict);
+    }
+
+    serialize(): Token[] {
+        const parts: Token[] = [keyWord('INSERT INTO'), ...this.target.serialize()];
+        if (Array.isArray(this.source)) parts.push(...serializeValues(this.source));
+        else parts.push(...serializeInsertQuery(this.source));
+        if (this.conflict) parts.push(...serializeOnConflict(this.conflict));
+        return parts;
+    }
+}
+
+class OnConflict<Alias extends string, RowType, Next> {
+    constructor(private target: ConflictTarget | undefined, private onFinish: (c: OnConflictClause) => Next) {}
+
+    doNothing(): Next {
+        return this.onFinish({target: this.target, action: {type: 'nothing'}});
+    }
+
+    /** The proposed row is available as `excluded`, alongside the existing row. */
+    doUpdate<S extends Assignments<RowType> & NoExtraColumns<RowType, S>>(
+        set: (t: TupleMap<Record<Alias | 'excluded', RowType>>) => S,
+        where?: (t: TupleMap<Record<Alias | 'excluded', RowType>>) => BoolExpr,
+    ): Next {
+        if (this.target === undefined) throw new Error('ON CONFLICT DO UPDATE requires a conflict target');
+        const action = {type: 'update' as const, set: set(tupleMap()), where: where?.(tupleMap())};
+        return this.onFinish({target: this.target, action});
+    }
+}
+
+export class Update<T> {
+    protected constructor(private target: Serializable, private set: Row, private from?: Serializable,
+                          private whereCond?: BoolExpr) {}
+
+    static make<T>(target: Serializable, set: Row, from?: Serializable) {
+        return new Update<T>(target, set, from);
+    }
+
+    where(cond: (t: TupleMap<T>) => BoolExpr): Update<T> {
+        return new Update(this.target, this.set, this.from, cond(tupleMap()));
+    }
+
+    returning<SelectTuple>(proj: (t: TupleMap<T>) => Tuple<SelectTuple>): Returning<SelectTuple> {
+        return new Returning(this, proj(tupleMap()));
+    }
+
+    serialize(): Token[] {
+        const parts: Token[] = [keyWord('UPDATE'), ...this.target.serialize()];
+        parts.push(keyWord('SET'), ...serializeAssignments(this.set));
+        if (this.from) parts.push(keyWord('FROM'), ...this.from.serialize());
+        if (this.whereCond) parts.push(keyWord('WHERE'), ...this.whereCond.serialize());
+        return parts;
+    }
+}
+
+export class Delete<T> {
+    protected constructor(private target: Serializable, private usingItems: Serializable[],
+                          private whereCond?: BoolExpr, private allRows?: boolean) {}
+
+    static make<T>(target: Serializable) {
+        return new Delete<T>(target, []);
+    }
+
+    using<T2>(other: From<T2>): Delete<T & T2> {
+        return new Delete(this.target, this.usingItems.concat(other), this.whereCond, this.allRows);
+    }
+
+    where(cond: (t: TupleMap<T>) => BoolExpr): Delete<T> {
+        return new Delete(this.target, this.usingItems, cond(tupleMap()), this.allRows);
+    }
+
+    /** Explicitly allow deleting every row of the table, which is refused by default. */
+    all(): Delete<T> {
+        return new Delete(this.target, this.usingItems, this.whereCond, true);
+    }
+
+    returning<SelectTuple>(proj: (t: TupleMap<T>) => Tuple<SelectTuple>): Returning<SelectTuple> {
+        return new Returning(this, proj(tupleMap()));
+    }
+
+    serialize(): Token[] {
+        if (!this.whereCond && !this.allRows)
+            throw new Error('Refusing to DELETE without a WHERE clause. Use .all() to delete every row');
+        const parts: Token[] = [keyWord('DELETE FROM'), ...this.target.serialize()];
+        if (this.usingItems.length > 0)
+            parts.push(keyWord('USING'), ...commaSeparate(this.usingItems.map(u => u.serialize())));
+        if (this.whereCond) parts.push(keyWord('WHERE'), ...this.whereCond.serialize());
+        return parts;
+    }
+}
+
+export function serializeAssignments(set: Row): Token[] {
+    const entries = Object.entries(set).filter((e): e is [string, UnknownExpr] => e[1] !== undefined);
+    if (entries.length === 0) throw new Error('SET requires at least one column');
+    return commaSeparate(entries.map(([column, value]) => [
+        identifier(column),
+        operator('='),
+        ...value.serialize(),
+    ]));
+}
+
+/** A data-modifying statement with a RETURNING clause. Use it as a subquery by passing it to `withQueries`. */
+export class Returning<SelectTuple> implements ReturningStatement<SelectTuple> {
+    declare readonly _returning?: SelectTuple;
+
+    constructor(private statement: Serializable, private tuple: Tuple<SelectTuple>) {}
+
+    columns(): string[] {
+        return Object.keys(this.tuple);
+    }
+
+    serialize(): Token[] {
+        return [...this.statement.serialize(), keyWord('RETURNING'), ...serializeOutputList(this.tuple)];
+    }
+}
+
+function serializeOnConflict({target, action}: OnConflictClause): Token[] {
+    const parts: Token[] = [keyWord('ON CONFLICT')];
+    if (target?.type === 'columns') {
+        parts.push(
+            specialCharacter('('),
+            ...commaSeparate(target.columns.map(c => [identifier(c)])),
+            specialCharacter(')'),
+        );
+    } else if (target?.type === 'constraint') {
+        parts.push(keyWord('ON CONSTRAINT'), identifier(target.name));
+    }
+    if (action.type === 'nothing') {
+        parts.push(keyWord('DO NOTHING'));
+        return parts;
+    }
+    parts.push(keyWord('DO UPDATE'), keyWord('SET'), ...serializeAssignments(action.set));
+    if (action.where) parts.push(keyWord('WHERE'), ...action.where.serialize());
+    return parts;
+}
+
+function serializeInsertQuery(query: Subquery<unknown>): Token[] {
+    const columns = query.columns();
+    if (columns.length === 0) return query.serialize();
+    return [
+        specialCharacter('('),
+        ...commaSeparate(columns.map(c => [identifier(c)])),
+        specialCharacter(')'),
+        ...query.serialize(),
+    ];
+}
+
+export function serializeValues(rows: Row[]): Token[] {
+    // Columns missing from some (but not all) rows are filled in with DEFAULT
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row).filter(k => row[k] !== undefined)))];
+    if (columns.length === 0) {
+        if (rows.length > 1) throw new Error('Cannot insert multiple rows without specifying any columns');
+        return [keyWord('DEFAULT VALUES')];
+    }
+    return [
+        specialCharacter('('),
+        ...commaSeparate(columns.map(c => [identifier(c)])),
+        specialCharacter(')'),
+        keyWord('VALUES'),
+        ...commaSeparate(rows.map(row => [
+            specialCharacter('('),
+            ...commaSeparate(columns.map(c => row[c]?.serialize() ?? [keyWord('DEFAULT')])),
+            specialCharacter(')'),
+        ])),
+    ];
+}
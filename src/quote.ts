@@ -1,11 +1,12 @@
 // Escape syntax is documented here: https://www.postgresql.org/docs/current/sql-syntax-lexical.html
 
 const reservedKeywords = new Set([
-    'ABSENT', 'ALL', 'AND', 'ANY', 'ARRAY', 'AS', 'ASC', 'BETWEEN', 'CAST',
-    'CROSS', 'JOIN', 'CUBE', 'DESC', 'DISTINCT', 'EXCEPT', 'FILTER', 'FOR',
-    'FROM', 'FULL', 'GROUP', 'BY', 'HAVING', 'INNER', 'INTERSECT',
-    'LATERAL', 'LEFT', 'LIMIT', 'NULL', 'OFFSET', 'ON', 'ORDER', 'OVER',
-    'RIGHT', 'SELECT', 'UNION', 'UNIQUE', 'UPDATE', 'USING', 'WHERE', 'WITH',
+    'ABSENT', 'ALL', 'AND', 'ANY', 'ARRAY', 'AS', 'ASC', 'BETWEEN', 'CASE', 'CAST',
+    'CROSS', 'JOIN', 'CUBE', 'DEFAULT', 'DESC', 'DISTINCT', 'ELSE', 'END', 'EXCEPT', 'FILTER', 'FOR',
+    'FROM', 'FULL', 'GROUP', 'BY', 'HAVING', 'INNER', 'INTERSECT', 'INTO',
+    'LATERAL', 'LEFT', 'LIMIT', 'NATURAL', 'NULL', 'OFFSET', 'ON', 'ORDER', 'OVER',
+    'RETURNING', 'RIGHT', 'SELECT', 'SET', 'SYMMETRIC', 'THEN', 'UNION', 'UNIQUE', 'UPDATE', 'USING', 'WHEN',
+    'WHERE', 'WITH',
 ]);
 
 export function identifier(ident: string, forceQuote: boolean = false) {
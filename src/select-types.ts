@@ -1,4 +1,4 @@
-import { Expression, OrderArg, UnknownExpr } from './expression';
+import { Expression, FinalExpression, OrderArg, UnknownExpr, WindowNames } from './expression';
 import { Token } from './serialize';
 
 export type Tuple<RowType> = {[Field in keyof RowType]: Expression<RowType[Field]>};
@@ -9,6 +9,24 @@ type BoolExpr = Expression<boolean>;
 type Nullable1<T> = {[K in keyof T]: T[K] | null};
 export type Nullable<T> = {[K in keyof T]: Nullable1<T[K]>};
 
+/** Column aliases for a from_item, mapping each new column name to the name it replaces. */
+export type ColumnRenames<RowType> = {[NewName: string]: keyof RowType & string};
+export type Renamed<RowType, Renames extends ColumnRenames<RowType>> =
+    {[K in Exclude<keyof RowType, Renames[keyof Renames]>]: RowType[K]}
+    & {[NewName in keyof Renames]: RowType[Renames[NewName]]};
+
+/** The names of every column of every from_item in `T`. */
+type Columns<T> = T[keyof T] extends infer RowType ? RowType extends unknown ? keyof RowType : never : never;
+/** Column names that can be given to JOIN ... USING, i.e. those present on both sides. */
+export type SharedColumns<T1, T2> = Columns<T1> & Columns<T2> & string;
+/** The columns merged by JOIN ... USING, as seen through the join alias. They take the left-hand side's type. */
+export type MergedColumns<T, Cols extends string> =
+    {[Col in Cols]: {[Table in keyof T]: Col extends keyof T[Table] ? T[Table][Col] : never}[keyof T]};
+
+/** A select list, whose window calls may refer to the windows named by `Windows`. */
+export type SelectList<SelectTuple, Windows extends string> =
+    Tuple<SelectTuple> & Record<string, WindowNames<Windows>>;
+
 export interface From<T> {
     join: <T2>(other: From<T2>, on: (t: TupleMap<T & T2>) => BoolExpr) => From<T & T2>;
     lateral: <T2>(other: (t: TupleMap<T>) => From<T2>, on: (t: TupleMap<T & T2>) => BoolExpr) => From<T & T2>;
@@ -21,19 +39,48 @@ export interface From<T> {
     fullJoin: <T2>(other: From<T2>, on: (t: TupleMap<Nullable<T & T2>>) => BoolExpr) => From<Nullable<T & T2>>;
     crossJoin: <T2>(other: From<T2>) => From<T & T2>;
     crossJoinLateral: <T2>(other: (t: TupleMap<T>) => From<T2>) => From<T & T2>;
-    select: <SelectTuple>(proj: (t: TupleMap<T>) => Tuple<SelectTuple>) => SelectFrom<T, SelectTuple>;
+    joinUsing: <T2, Cols extends string, JoinAlias extends string = never>(
+        other: From<T2>,
+        columns: (Cols & SharedColumns<T, T2>)[],
+        alias?: JoinAlias
+    ) => From<T & T2 & Record<JoinAlias, MergedColumns<T, Cols & SharedColumns<T, T2>>>>;
+    naturalJoin: <T2>(other: From<T2>) => From<T & T2>;
+    select: <SelectTuple, Windows extends string = never>(
+        proj: (t: TupleMap<T>) => SelectList<SelectTuple, Windows>
+    ) => SelectFrom<T, SelectTuple, Windows>;
     serialize: () => Token[];
 }
 
-export type SelectFrom<FromTuple, SelectTuple> = DistinctSubq<FromTuple, SelectTuple, true> & {
-    distinct: () => DistinctSubq<FromTuple, SelectTuple, false>;
-    distinctOn: (key: ((t: TupleMap<FromTuple>) => UnknownExpr[])) => DistinctSubq<FromTuple, SelectTuple, false>;
-};
+export type SelectFrom<FromTuple, SelectTuple, Windows extends string = never> =
+    DistinctSubq<FromTuple, SelectTuple, true, InitialWindows<Windows>> & {
+        distinct: () => DistinctSubq<FromTuple, SelectTuple, false, InitialWindows<Windows>>;
+        distinctOn: (key: ((t: TupleMap<FromTuple>) => UnknownExpr[])) =>
+        DistinctSubq<FromTuple, SelectTuple, false, InitialWindows<Windows>>;
+    };
+
+/**
+ * The names of the windows referred to by window calls in the select list, those declared by the WINDOW clause,
+ * and which of the declared windows have an ORDER BY.
+ */
+interface WindowNameState {
+    referenced: string;
+    declared: string;
+    ordered: string;
+}
+
+type InitialWindows<Referenced extends string> = {referenced: Referenced; declared: never; ordered: never};
 
-type DistinctSubq<FromTuple, SelectTuple, AllowLock> = FilteredSubq<FromTuple, SelectTuple, AllowLock> & {
-    where: (cond: (t: TupleMap<FromTuple>) => BoolExpr) => FilteredSubq<FromTuple, SelectTuple, AllowLock>;
+type Declare<W extends WindowNameState, Name extends string, Ordered extends boolean> = {
+    referenced: W['referenced'];
+    declared: W['declared'] | Name;
+    ordered: W['ordered'] | (Ordered extends true ? Name : never);
 };
 
+type DistinctSubq<FromTuple, SelectTuple, AllowLock, W extends WindowNameState> =
+    FilteredSubq<FromTuple, SelectTuple, AllowLock, W> & {
+        where: (cond: (t: TupleMap<FromTuple>) => BoolExpr) => FilteredSubq<FromTuple, SelectTuple, AllowLock, W>;
+    };
+
 // https://www.postgresql.org/docs/current/queries-table-expressions.html#QUERIES-GROUPING-SETS
 export type GroupingTree =
     | UnknownExpr
@@ -43,36 +90,59 @@ export type GroupingTree =
 
 export type RollupArgs = (UnknownExpr | UnknownExpr[])[];
 
-type FilteredSubq<FromTuple, SelectTuple, AllowLock> = GroupedSubq<FromTuple, SelectTuple, AllowLock> & {
-    groupBy: (dims: (t: TupleMap<FromTuple>) => GroupingTree) => GroupedSubq<FromTuple, SelectTuple, false>;
-    groupByDistinct: (dims: (t: TupleMap<FromTuple>) => GroupingTree) =>
-    GroupedSubq<FromTuple, SelectTuple, false>;
-    rollup: (dims: (t: TupleMap<FromTuple>) => RollupArgs) => GroupedSubq<FromTuple, SelectTuple, false>;
-    cube: (dims: (t: TupleMap<FromTuple>) => RollupArgs) => GroupedSubq<FromTuple, SelectTuple, false>;
-    groupingSets: (sets: (t: TupleMap<FromTuple>) => UnknownExpr[][]) =>
-    GroupedSubq<FromTuple, SelectTuple, false>;
-};
+type FilteredSubq<FromTuple, SelectTuple, AllowLock, W extends WindowNameState> =
+    GroupedSubq<FromTuple, SelectTuple, AllowLock, W> & {
+        groupBy: (dims: (t: TupleMap<FromTuple>) => GroupingTree) => GroupedSubq<FromTuple, SelectTuple, false, W>;
+        groupByDistinct: (dims: (t: TupleMap<FromTuple>) => GroupingTree) =>
+        GroupedSubq<FromTuple, SelectTuple, false, W>;
+        rollup: (dims: (t: TupleMap<FromTuple>) => RollupArgs) => GroupedSubq<FromTuple, SelectTuple, false, W>;
+        cube: (dims: (t: TupleMap<FromTuple>) => RollupArgs) => GroupedSubq<FromTuple, SelectTuple, false, W>;
+        groupingSets: (sets: (t: TupleMap<FromTuple>) => UnknownExpr[][]) =>
+        GroupedSubq<FromTuple, SelectTuple, false, W>;
+    };
 
-type GroupedSubq<FromTuple, SelectTuple, AllowLock> = GroupedFilteredSubq<FromTuple, SelectTuple, AllowLock> & {
-    having: (cond: (t: TupleMap<FromTuple>) => BoolExpr) => GroupedFilteredSubq<FromTuple, SelectTuple, false>;
-};
+type GroupedSubq<FromTuple, SelectTuple, AllowLock, W extends WindowNameState> =
+    GroupedFilteredSubq<FromTuple, SelectTuple, AllowLock, W> & {
+        having: (cond: (t: TupleMap<FromTuple>) => BoolExpr) =>
+        GroupedFilteredSubq<FromTuple, SelectTuple, false, W>;
+    };
 
-type GroupedFilteredSubq<FromTuple, SelectTuple, AllowLock> = UnitSubq<FromTuple, SelectTuple, AllowLock> & {
-    // TODO: Can we make inter-window references type-safe and enforce that `orderBy` only be given once?
-    window: (name: string) => WindowMaker<FromTuple, SelectTuple, AllowLock>;
-};
+// The rest of the query is only available once every window referred to by the select list has been declared
+type GroupedFilteredSubq<FromTuple, SelectTuple, AllowLock, W extends WindowNameState> =
+    ([Exclude<W['referenced'], W['declared']>] extends [never]
+        ? UnitSubq<FromTuple, SelectTuple, AllowLock>
+        : object)
+    & {window: <Name extends string>(name: Name) => WindowMaker<FromTuple, SelectTuple, AllowLock, W, Name>};
 
-interface WindowMaker<FromTuple, SelectTuple, AllowLock> {
+interface WindowMaker<FromTuple, SelectTuple, AllowLock, W extends WindowNameState, Name extends string> {
     as: {
-        (params: WindowParams<FromTuple>): GroupedFilteredSubq<FromTuple, SelectTuple, AllowLock>;
-        (existingWindowName: string, params?: Omit<WindowParams<FromTuple>, 'partitionBy'>):
-        GroupedFilteredSubq<FromTuple, SelectTuple, AllowLock>;
+        <Params extends WindowParams<FromTuple>>(params: Params): GroupedFilteredSubq<
+            FromTuple, SelectTuple, AllowLock, Declare<W, Name, Params extends {orderBy: unknown} ? true : false>
+        >;
+        // The new window copies the existing window's ORDER BY, and may only give its own if there isn't one
+        <Existing extends W['declared']>(
+            existingWindowName: Existing,
+            params?: Omit<WindowParams<FromTuple>, 'partitionBy' | 'orderBy'>
+        ): GroupedFilteredSubq<
+            FromTuple, SelectTuple, AllowLock, Declare<W, Name, Existing extends W['ordered'] ? true : false>
+        >;
+        (
+            existingWindowName: Exclude<W['declared'], W['ordered']>,
+            params: Omit<WindowParams<FromTuple>, 'partitionBy'>
+        ): GroupedFilteredSubq<FromTuple, SelectTuple, AllowLock, Declare<W, Name, true>>;
     };
 }
 
 export interface WindowParams<FromTuple> {
-    partitionBy: (t: FromTuple) => UnknownExpr[];
-    orderBy?: (t: FromTuple) => (UnknownExpr | OrderArg)[];
+    partitionBy: (t: TupleMap<FromTuple>) => UnknownExpr[];
+    orderBy?: (t: TupleMap<FromTuple>) => (UnknownExpr | OrderArg)[];
+    frame?: WindowFrame;
+}
+
+/** A window definition given directly in OVER (...), built from expressions already in scope. */
+export interface InlineWindow {
+    partitionBy?: UnknownExpr[];
+    orderBy?: (UnknownExpr | OrderArg)[];
     frame?: WindowFrame;
 }
 
@@ -89,21 +159,33 @@ export type FrameRef =
     | {type: 'UNBOUNDED FOLLOWING'}
     | {offset: number; type: 'PRECEDING' | 'FOLLOWING'};
 
-export type UnitSubq<FromTuple, SelectTuple, AllowLock> = OrderableSubq<FromTuple, SelectTuple, AllowLock> & {
-    // TODO: ORDER BY and LIMIT can be attached to a subexpression if it is enclosed in parentheses. Without
-    // parentheses, these clauses will be taken to apply to the result of the UNION, not to its right-hand input
-    // expression.
-    union: (other: UnitSubq<FromTuple, SelectTuple, false>) => UnitSubq<FromTuple, SelectTuple, false>;
-    unionAll: (other: UnitSubq<FromTuple, SelectTuple, false>) => UnitSubq<FromTuple, SelectTuple, false>;
-    intersect: (other: UnitSubq<FromTuple, SelectTuple, false>) => UnitSubq<FromTuple, SelectTuple, false>;
-    intersectAll: (other: UnitSubq<FromTuple, SelectTuple, false>) => UnitSubq<FromTuple, SelectTuple, false>;
-    except: (other: UnitSubq<FromTuple, SelectTuple, false>) => UnitSubq<FromTuple, SelectTuple, false>;
-    exceptAll: (other: UnitSubq<FromTuple, SelectTuple, false>) => UnitSubq<FromTuple, SelectTuple, false>;
+export type UnitSubq<FromTuple, SelectTuple, AllowLock> = OrderableSubq<FromTuple, SelectTuple, AllowLock>;
+
+// Operands are parenthesized when they have their own ORDER BY, LIMIT, etc., so those clauses don't leak onto the
+// result of the set operation
+type SetOperations<SelectTuple> = {
+    union: (other: Subquery<SelectTuple>) => SetOpSubq<SelectTuple>;
+    unionAll: (other: Subquery<SelectTuple>) => SetOpSubq<SelectTuple>;
+    intersect: (other: Subquery<SelectTuple>) => SetOpSubq<SelectTuple>;
+    intersectAll: (other: Subquery<SelectTuple>) => SetOpSubq<SelectTuple>;
+    except: (other: Subquery<SelectTuple>) => SetOpSubq<SelectTuple>;
+    exceptAll: (other: Subquery<SelectTuple>) => SetOpSubq<SelectTuple>;
 };
 
-type OrderableSubq<FromTuple, SelectTuple, AllowLock> = OrderedSubq<SelectTuple, AllowLock> & {
+export type SetOpSubq<SelectTuple> = OrderedSubq<SelectTuple, false> & {
     // A limitation of this feature is that an ORDER BY clause applying to the result of a UNION, INTERSECT, or
     // EXCEPT clause can only specify an output column name or number, not an expression.
+    orderBy: (ord: (t: OutputColumns<SelectTuple>) => (UnknownExpr | OrderArg)[]) =>
+    OrderedSubq<SelectTuple, false>;
+};
+
+/** References to the output columns of a query, which can only be ordered by. */
+export type OutputColumns<SelectTuple> = {
+    [K in keyof SelectTuple]: FinalExpression<SelectTuple[K]>
+                              & Pick<Expression<SelectTuple[K]>, 'asc' | 'desc' | 'using'>
+};
+
+type OrderableSubq<FromTuple, SelectTuple, AllowLock> = OrderedSubq<SelectTuple, AllowLock> & {
     orderBy: (ord: (t: TupleMap<FromTuple>) => (UnknownExpr | OrderArg)[]) => OrderedSubq<SelectTuple, AllowLock>;
 };
 
@@ -111,7 +193,7 @@ type OrderableSubq<FromTuple, SelectTuple, AllowLock> = OrderedSubq<SelectTuple,
 // any order, but with SQL:08, OFFSET must come first.
 
 type OrderedSubq<SelectTuple, AllowLock> = OrderedSubq1<SelectTuple, AllowLock>
-                                         | OrderedSubq2<SelectTuple, AllowLock>;
+                                         & OrderedSubq2<SelectTuple, AllowLock>;
 
 type OrderedSubq1<SelectTuple, AllowLock> = LockableSubq<SelectTuple, AllowLock> & {
     offset: (start: number | Expression<number>) => OffsetSubq<SelectTuple, AllowLock>;
@@ -132,14 +214,33 @@ type LimitedSubq<SelectTuple, AllowLock> = LockableSubq<SelectTuple, AllowLock>
     offset: (start: number | Expression<number>) => LockableSubq<SelectTuple, AllowLock>;
 };
 
-type LockableSubq<SelectTuple, AllowLock> = Subquery<SelectTuple> & (AllowLock extends true ? {
+type LockableSubq<SelectTuple, AllowLock> = Subquery<SelectTuple> & SetOperations<SelectTuple>
+    & (AllowLock extends true ? LockedSubq<SelectTuple> : object);
+
+// Postgres doesn't allow locking clauses in the operands of a set operation
+type LockedSubq<SelectTuple> = Subquery<SelectTuple> & {
     for: (lockStrength: 'UPDATE' | 'NO KEY UPDATE' | 'SHARE' | 'KEY SHARE',
         block?: 'NOWAIT' | 'SKIP LOCKED',
-        tables?: string[]) => LockableSubq<SelectTuple, true>;
-} : object);
+        tables?: string[]) => LockedSubq<SelectTuple>;
+};
 
 export interface Subquery<SelectTuple> {
-    as: <K extends string>(alias: K) => From<Record<K, SelectTuple>>;
+    as: {
+        <K extends string>(alias: K): From<Record<K, SelectTuple>>;
+        <K extends string, Renames extends ColumnRenames<SelectTuple>>(alias: K, renames: Renames):
+        From<Record<K, Renamed<SelectTuple, Renames>>>;
+    };
     scalar: () => Expression<SelectTuple[keyof SelectTuple]>;
+    /** The names of the output columns, in order. */
+    columns: () => string[];
+    serialize: () => Token[];
+}
+
+/** A data-modifying statement with a RETURNING clause. Postgres only allows these as WITH queries. */
+export interface ReturningStatement<SelectTuple> {
+    /** Unused field to track the row type. */
+    readonly _returning?: SelectTuple;
+    /** The names of the output columns, in order. */
+    columns: () => string[];
     serialize: () => Token[];
 }
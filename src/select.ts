@@ -1,37 +1,26 @@
-import { Expression, OrderArg, SubqueryExpr, UnknownExpr, field, isFinalExpression, number } from './expression';
+import {
+    Expression, FinalExpression, OrderArg, SubqueryExpr, UnknownExpr, isFinalExpression, number,
+    outputColumn, resolveOrderArgs, serializeOrderArg, serializeWindowBody,
+} from './expression';
+import { Merge } from './merge';
+import { Assignments, Delete, Insert, InsertRow, InsertTuple, NoExtraColumns, Update } from './modify';
 import * as quote from './quote';
 import {
-    FrameRef, From, GroupingTree, Nullable, RollupArgs, SelectFrom, Subquery, Tuple, TupleMap, UnitSubq,
-    WindowFrame, WindowParams,
+    ColumnRenames, From, GroupingTree, MergedColumns, Nullable, OutputColumns, Renamed, ReturningStatement,
+    RollupArgs, SelectFrom, SelectList, SetOpSubq, SharedColumns, Subquery, Tuple, TupleMap, WindowFrame,
+    WindowParams,
 } from './select-types';
-import { Token, commaSeparate, identifier, keyWord, literal, specialCharacter } from './serialize';
-import { SQL } from './types';
+import {
+    Serializable, Token, commaSeparate, identifier, keyWord, qualifiedName, specialCharacter, typeName,
+} from './serialize';
+import { serializeOutputList, tupleMap } from './tuples';
+import { SQL, SqlType } from './types';
 import { assertNever } from './utils';
 
 // https://www.postgresql.org/docs/current/sql-select.html
 
 type BoolExpr = Expression<boolean>;
 
-function tupleMap<T>(): T {
-    return new Proxy<any>({}, {
-        get(target, tableName) {
-            if (tableName in target) return target[tableName];
-            if (typeof tableName !== 'string') return undefined;
-            return target[tableName] = subTuple(tableName);
-        },
-    });
-}
-
-function subTuple<T>(tableName: string): T {
-    return new Proxy<any>({}, {
-        get(target, fieldName) {
-            if (fieldName in target) return target[fieldName];
-            if (typeof fieldName !== 'string') return undefined;
-            return target[fieldName] = field(tableName, fieldName);
-        },
-    });
-}
-
 abstract class BaseFrom<T> implements From<T> {
     private tuples: TupleMap<T> = tupleMap();
 
@@ -71,7 +60,28 @@ abstract class BaseFrom<T> implements From<T> {
         return new FullJoin(this, other, on(tupleMap()));
     }
 
-    select<SelectTuple>(proj: (t: TupleMap<T>) => Tuple<SelectTuple>): SelectFrom<T, SelectTuple> {
+    /**
+     * INNER JOIN ... USING. The columns must exist on both sides. If an alias is given, the merged columns can be
+     * referenced through it.
+     */
+    joinUsing<T2, Cols extends string, JoinAlias extends string = never>(
+        other: From<T2>,
+        columns: (Cols & SharedColumns<T, T2>)[],
+        alias?: JoinAlias,
+    ): From<T & T2 & Record<JoinAlias, MergedColumns<T, Cols & SharedColumns<T, T2>>>> {
+        if (columns.length === 0) throw new Error('JOIN ... USING requires at least one column');
+        return new UsingJoin(this, other, columns, alias);
+    }
+
+    naturalJoin<T2>(other: From<T2>): From<T & T2> {
+        return new NaturalJoin(this, other);
+    }
+
+    select<SelectTuple, Windows extends string = never>(
+        proj: (t: TupleMap<T>) => SelectList<SelectTuple, Windows>,
+    ): SelectFrom<T, SelectTuple, Windows>;
+    // Window names are only tracked by the types, which SubqueryImpl can't satisfy on its own
+    select<SelectTuple>(proj: (t: TupleMap<T>) => Tuple<SelectTuple>): unknown {
         return SubqueryImpl.make(this, proj(tupleMap()));
     }
 
@@ -80,19 +90,18 @@ abstract class BaseFrom<T> implements From<T> {
 
 function serializeJoin<T1, T2>(type: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL', lateral: boolean,
                                left: From<T1>, right: From<T2>, on: BoolExpr): Token[] {
-    const leftTokens = left.serialize();
     const lateralTokens = lateral ? [keyWord('LATERAL')] : [];
-    const rightTokens = right.serialize();
     const onTokens = on.serialize();
+    return wrapJoin(left, [keyWord(type), keyWord('JOIN'), ...lateralTokens], right, [keyWord('ON'), ...onTokens]);
+}
+
+function wrapJoin<T1, T2>(left: From<T1>, joinType: Token[], right: From<T2>, condition: Token[]): Token[] {
     return [
         specialCharacter('('),
-        ...leftTokens,
-        keyWord(type),
-        keyWord('JOIN'),
-        ...lateralTokens,
-        ...rightTokens,
-        keyWord('ON'),
-        ...onTokens,
+        ...left.serialize(),
+        ...joinType,
+        ...right.serialize(),
+        ...condition,
         specialCharacter(')'),
     ];
 }
@@ -159,70 +168,267 @@ class CrossJoin<T1, T2> extends BaseFrom<T1 & T2> {
     }
 }
 
+class UsingJoin<T1, T2, JoinAlias extends string, Cols extends string>
+    extends BaseFrom<T1 & T2 & Record<JoinAlias, MergedColumns<T1, Cols>>> {
+    constructor(private left: From<T1>, private right: From<T2>,
+                private columns: Cols[], private alias?: JoinAlias) {
+        super();
+    }
+
+    serialize(): Token[] {
+        const alias = this.alias === undefined ? [] : [keyWord('AS'), identifier(this.alias)];
+        return wrapJoin(this.left, [keyWord('INNER'), keyWord('JOIN')], this.right, [
+            keyWord('USING'),
+            specialCharacter('('),
+            ...commaSeparate(this.columns.map(c => [identifier(c)])),
+            specialCharacter(')'),
+            ...alias,
+        ]);
+    }
+}
+
+class NaturalJoin<T1, T2> extends BaseFrom<T1 & T2> {
+    constructor(private left: From<T1>, private right: From<T2>) {
+        super();
+    }
+
+    serialize(): Token[] {
+        return wrapJoin(this.left, [keyWord('NATURAL'), keyWord('INNER'), keyWord('JOIN')], this.right, []);
+    }
+}
+
 // We want to ensure that aliases are only set once per from_item. To do so, we use a "smart constructor" that
 // hides the alias parameter, which can only be set from the `.as()` method. In the .as() method we upcast the
 // result to hide that method from typescript
 
-class Table<Alias extends string, RowType> extends BaseFrom<Record<Alias, RowType>> {
-    protected constructor(private alias: Alias, private realName: string) {
+interface TableSample {
+    method: 'BERNOULLI' | 'SYSTEM';
+    percent: Expression<number>;
+    seed?: Expression<number>;
+}
+
+interface TableOptions<RowType, Defaults extends keyof RowType, Key extends readonly (keyof RowType)[]> {
+    /** Columns with a default value, which may be omitted when inserting. */
+    defaults?: Defaults[];
+    /** The primary key and any other unique keys, which can be used as ON CONFLICT targets. */
+    keys?: Key[];
+    /** The schema containing the table. Without one, Postgres looks the table up on the search_path. */
+    schema?: string;
+}
+
+/** Whether a table's descendants are scanned: ONLY excludes them, and * includes them as is the default. */
+type Inheritance = 'ONLY' | '*' | undefined;
+
+/** A table with ONLY or *, which can't be inserted into. Aliasing it keeps the restriction. */
+type InheritanceTable<Alias extends string, RowType, Defaults extends keyof RowType,
+    Key extends readonly (keyof RowType)[]> =
+    Omit<Table<Alias, RowType, Defaults, Key>, 'as' | 'inSchema' | 'only' | 'withDescendants' | 'insert'> & {
+        as: <NewAlias extends string>(alias: NewAlias) =>
+        Omit<InheritanceTable<NewAlias, RowType, Defaults, Key>, 'as'>;
+    };
+
+class Table<Alias extends string, RowType, Defaults extends keyof RowType = never,
+    Key extends readonly (keyof RowType)[] = never>
+    extends BaseFrom<Record<Alias, RowType>> {
+    protected constructor(private alias: Alias, private realName: string, private schema: string | undefined,
+                          private inheritance: Inheritance, private sample?: TableSample) {
         super();
     }
 
-    /** Create a new table. The second argument exists solely to allow easy type inference/annotation. */
-    static define<Name extends string, RowType extends object>(
+    /**
+     * Create a new table. The second argument exists solely to allow easy type inference/annotation. Nullable
+     * columns need not be listed in `defaults`, since they can always be omitted from an INSERT.
+     */
+    static define<Name extends string, RowType extends object, Defaults extends keyof RowType = never,
+        const Key extends readonly (keyof RowType)[] = never>(
         name: Name,
         _: {[K in keyof RowType]: SQL<RowType[K]>},
+        options?: TableOptions<RowType, Defaults, Key>,
     ) {
-        return new Table<Name, RowType>(name, name);
+        return new Table<Name, RowType, Defaults, Key>(name, name, options?.schema, undefined);
     }
 
-    as<NewAlias extends string>(alias: NewAlias): From<Record<NewAlias, RowType>> {
-        return new Table(alias, this.realName);
+    /** The same table in another schema, e.g. to target one of several per-tenant schemas with the same layout. */
+    inSchema(schema: string): Table<Alias, RowType, Defaults, Key> {
+        return new Table(this.alias, this.realName, schema, this.inheritance, this.sample);
+    }
+
+    /** Exclude rows from tables that inherit from this one, or from partitions if it's a partitioned table. */
+    only(): InheritanceTable<Alias, RowType, Defaults, Key> {
+        return new Table(this.alias, this.realName, this.schema, 'ONLY', this.sample);
+    }
+
+    /** Explicitly include rows from descendant tables, which Postgres already does by default. */
+    withDescendants(): InheritanceTable<Alias, RowType, Defaults, Key> {
+        return new Table(this.alias, this.realName, this.schema, '*', this.sample);
+    }
+
+    as<NewAlias extends string>(alias: NewAlias): Omit<Table<NewAlias, RowType, Defaults, Key>, 'as'> {
+        return new Table<NewAlias, RowType, Defaults, Key>(alias, this.realName, this.schema, this.inheritance);
+    }
+
+    /**
+     * Scan a random sample of the table. BERNOULLI samples individual rows, SYSTEM samples whole pages. Giving a
+     * seed makes the sample the same across queries, as long as the table doesn't change.
+     */
+    tablesample(method: 'BERNOULLI' | 'SYSTEM', percent: number | Expression<number>,
+                options?: {repeatable?: number | Expression<number>}): From<Record<Alias, RowType>> {
+        const seed = options?.repeatable;
+        const sample = {
+            method,
+            percent: typeof percent === 'number' ? number(percent) : percent,
+            seed: typeof seed === 'number' ? number(seed) : seed,
+        };
+        return new Table<Alias, RowType>(this.alias, this.realName, this.schema, this.inheritance, sample);
+    }
+
+    insert(rows: InsertRow<RowType, Defaults>[]): Insert<Alias, RowType, Key>;
+    /** INSERT ... SELECT. Rows are inserted into the columns with the same names as the subquery's columns. */
+    insert<SelectTuple extends InsertTuple<RowType, Defaults, SelectTuple>>(query: Subquery<SelectTuple>):
+    Insert<Alias, RowType, Key>;
+    insert(source: InsertRow<RowType, Defaults>[] | Subquery<unknown>) {
+        if (this.inheritance !== undefined) throw new Error('INSERT cannot use ONLY or *');
+        return Insert.make<Alias, RowType, Key>(this, source);
+    }
+
+    update<S extends Assignments<RowType> & NoExtraColumns<RowType, S>>(
+        set: (t: TupleMap<Record<Alias, RowType>>) => S,
+    ): Update<Record<Alias, RowType>>;
+    update<T2, S extends Assignments<RowType> & NoExtraColumns<RowType, S>>(
+        from: From<T2>,
+        set: (t: TupleMap<Record<Alias, RowType> & T2>) => S,
+    ): Update<Record<Alias, RowType> & T2>;
+    update<T2>(arg1: From<T2> | ((t: TupleMap<Record<Alias, RowType>>) => Assignments<RowType>),
+               arg2?: (t: TupleMap<Record<Alias, RowType> & T2>) => Assignments<RowType>) {
+        if (typeof arg1 === 'function') return Update.make(this, arg1(tupleMap()));
+        return Update.make(this, arg2!(tupleMap()), arg1);
+    }
+
+    delete(): Delete<Record<Alias, RowType>> {
+        return Delete.make(this);
+    }
+
+    merge<Source>(source: From<Source>, on: (t: TupleMap<Record<Alias, RowType> & Source>) => BoolExpr):
+    Merge<Alias, RowType, Defaults, Source> {
+        return Merge.make(this, source, on(tupleMap()));
     }
 
     serialize(): Token[] {
-        if (this.realName === this.alias) return [identifier(this.alias)];
+        const sample = this.sample === undefined ? [] : serializeTableSample(this.sample);
+        const name = [
+            ...(this.inheritance === 'ONLY' ? [keyWord('ONLY')] : []),
+            ...qualifiedName(this.schema, this.realName),
+            ...(this.inheritance === '*' ? [specialCharacter('*')] : []),
+        ];
+        if (this.realName === this.alias) return [...name, ...sample];
         return [
-            identifier(this.realName),
+            ...name,
             keyWord('AS'),
             identifier(this.alias),
+            ...sample,
         ];
     }
 }
 
+function serializeTableSample({method, percent, seed}: TableSample): Token[] {
+    const repeatable = seed === undefined ? [] : [
+        keyWord('REPEATABLE'),
+        specialCharacter('('),
+        ...seed.serialize(),
+        specialCharacter(')'),
+    ];
+    return [
+        keyWord('TABLESAMPLE'),
+        keyWord(method),
+        specialCharacter('('),
+        ...percent.serialize(),
+        specialCharacter(')'),
+        ...repeatable,
+    ];
+}
+
 export const table = Table.define;
 
+/** Bind a set of table definitions to a schema, keeping their names. */
+export function inSchema<Tables extends Record<string, Table<any, any, any, any>>>(
+    schema: string, tables: Tables,
+): Tables {
+    return Object.fromEntries(Object.entries(tables).map(([key, t]) => [key, t.inSchema(schema)])) as Tables;
+}
+
+// Postgres matches column aliases to columns by position, so we always give the full list
+function renameColumns(columns: string[], renames: Record<string, string>): string[] {
+    const newNames = new Map(Object.entries(renames).map(([newName, oldName]) => [oldName, newName]));
+    if (newNames.size !== Object.keys(renames).length)
+        throw new Error('Each column can only be renamed once');
+    const result = columns.map(c => newNames.get(c) ?? c);
+    if (new Set(result).size !== result.length) throw new Error('Column aliases must be unique');
+    return result;
+}
+
+function serializeColumnList(columns: string[]): Token[] {
+    return [
+        specialCharacter('('),
+        ...commaSeparate(columns.map(c => [identifier(c)])),
+        specialCharacter(')'),
+    ];
+}
+
+interface ColumnDefinition {
+    name: string;
+    type: string;
+}
+
 class FromFunction<Alias extends string, T> extends BaseFrom<Record<Alias, T>> {
-    protected constructor(private alias: Alias, private args: UnknownExpr[],
-                          private ordinality: boolean, private realName?: string) {
+    protected constructor(private alias: Alias, private schema: string | undefined, private args: UnknownExpr[],
+                          private ordinality: boolean, private realName?: string,
+                          private columnDefinitions?: ColumnDefinition[]) {
         super();
     }
 
-    static make<Name extends string, T>(name: Name, args: UnknownExpr[]) {
-        return new FromFunction<Name, T>(name, args, false);
+    static make<Name extends string, T>(name: Name, args: UnknownExpr[], options?: {schema?: string}) {
+        return new FromFunction<Name, T>(name, options?.schema, args, false);
     }
 
     withOrdinality() {
-        const ret = new FromFunction<Alias, T>(this.alias, this.args, true, this.realName);
+        const ret = new FromFunction<Alias, T>(this.alias, this.schema, this.args, true, this.realName);
         return ret as Omit<typeof ret, 'withOrdinality'>;
     }
 
-    as<NewAlias extends string>(alias: NewAlias): From<Record<NewAlias, T>> {
-        return new FromFunction(alias, this.args, this.ordinality, this.alias);
+    as<NewAlias extends string>(alias: NewAlias): From<Record<NewAlias, T>>;
+    /** Alias the function and give a column definition list, as required for functions returning `record`. */
+    as<NewAlias extends string, RowType extends object>(
+        alias: NewAlias,
+        columns: {[K in keyof RowType]: SQL<RowType[K]>},
+    ): From<Record<NewAlias, RowType>>;
+    as(alias: string, columns?: Record<string, SqlType<unknown>>): From<any> {
+        if (columns === undefined)
+            return new FromFunction(alias, this.schema, this.args, this.ordinality, this.alias);
+        if (this.ordinality) throw new Error('WITH ORDINALITY cannot be used with a column definition list');
+        const definitions = Object.entries(columns).map(([name, type]) => ({name, type: type.name}));
+        return new FromFunction(alias, this.schema, this.args, false, this.alias, definitions);
     }
 
-    serialize(): Token[] {
+    /** The function call on its own, as used inside ROWS FROM. */
+    serializeCall(): Token[] {
         const args = commaSeparate(this.args.map(a => a.serialize()));
+        const name = qualifiedName(this.schema, this.realName ?? this.alias);
+        return [...name, specialCharacter('('), ...args, specialCharacter(')')];
+    }
+
+    serialize(): Token[] {
         const withOrdinality = this.ordinality ? [keyWord('WITH ORDINALITY')] : [];
-        const name = identifier(quote.identifier(this.realName ?? this.alias));
-        const alias = this.realName === undefined ? [] : [keyWord('AS'), identifier(quote.identifier(this.alias))];
-        return [
-            name,
+        const alias = this.realName === undefined ? [] : [keyWord('AS'), identifier(this.alias)];
+        const definitions = this.columnDefinitions === undefined ? [] : [
             specialCharacter('('),
-            ...args,
+            ...commaSeparate(this.columnDefinitions.map(d => [identifier(d.name), typeName(d.type)])),
             specialCharacter(')'),
+        ];
+        return [
+            ...this.serializeCall(),
             ...withOrdinality,
             ...alias,
+            ...definitions,
         ];
     }
 }
@@ -230,24 +436,181 @@ class FromFunction<Alias extends string, T> extends BaseFrom<Record<Alias, T>> {
 export const fromFunction = FromFunction.make;
 
 class FromSubquery<Alias extends string, T> extends BaseFrom<Record<Alias, T>> {
-    constructor(private alias: Alias, private subquery: Subquery<T>) {
+    constructor(private alias: Alias, private subquery: Serializable, private columnAliases?: string[]) {
         super();
     }
 
+    static make<SelectTuple>(alias: string, subquery: Subquery<SelectTuple>,
+                             renames?: ColumnRenames<SelectTuple>): From<any> {
+        return new FromSubquery(alias, subquery, renames && renameColumns(subquery.columns(), renames));
+    }
+
     serialize(): Token[] {
         const subquery = this.subquery.serialize();
         const alias = identifier(quote.identifier(this.alias));
+        const columnAliases = this.columnAliases === undefined ? [] : serializeColumnList(this.columnAliases);
         return [
             specialCharacter('('),
             ...subquery,
             specialCharacter(')'),
             keyWord('AS'),
             alias,
+            ...columnAliases,
+        ];
+    }
+}
+
+class Values<RowType> {
+    protected constructor(private rows: Record<string, UnknownExpr>[], private columns: string[]) {}
+
+    /** Create a VALUES list. The second argument gives the column names and types; rows must match it. */
+    static make<RowType extends object>(
+        rows: NoInfer<{[K in keyof RowType]: FinalExpression<RowType[K]>}>[],
+        types: {[K in keyof RowType]: SQL<RowType[K]>},
+    ) {
+        if (rows.length === 0) throw new Error('VALUES requires at least one row');
+        return new Values<RowType>(rows, Object.keys(types));
+    }
+
+    // A VALUES list in FROM must have an alias
+    as<Alias extends string>(alias: Alias): From<Record<Alias, RowType>> {
+        return new FromValues(alias, this.rows, this.columns);
+    }
+}
+
+export const values = Values.make;
+
+class FromValues<Alias extends string, RowType> extends BaseFrom<Record<Alias, RowType>> {
+    constructor(private alias: Alias, private rows: Record<string, UnknownExpr>[], private columns: string[]) {
+        super();
+    }
+
+    serialize(): Token[] {
+        const rows = this.rows.map(row => [
+            specialCharacter('('),
+            ...commaSeparate(this.columns.map(c => row[c].serialize())),
+            specialCharacter(')'),
+        ]);
+        return [
+            specialCharacter('('),
+            keyWord('VALUES'),
+            ...commaSeparate(rows),
+            specialCharacter(')'),
+            keyWord('AS'),
+            identifier(this.alias),
+            ...serializeColumnList(this.columns),
+        ];
+    }
+}
+
+/** Results of different lengths are padded with NULLs, so with more than one, every column can be NULL. */
+type Padded<RowType, IsPadded extends boolean> =
+    IsPadded extends true ? {[K in keyof RowType]: RowType[K] | null} : RowType;
+
+type IsUnion<T, All = T> = T extends unknown ? ([All] extends [T] ? false : true) : never;
+
+type RowsFromColumns<Functions> = Functions extends [FromFunction<any, infer T>, ...infer Rest]
+    ? T & RowsFromColumns<Rest>
+    : unknown;
+type RowsFromRow<Functions> = Padded<RowsFromColumns<Functions>, Functions extends [unknown] ? false : true>;
+
+class RowsFrom<RowType> {
+    protected constructor(private functions: FromFunction<any, unknown>[], private ordinality: boolean) {}
+
+    /**
+     * Call several set-returning functions side by side. The row type combines the functions' columns; shorter
+     * results are padded with NULLs, so with more than one function every column is nullable.
+     */
+    static make<Functions extends FromFunction<any, any>[]>(...functions: Functions) {
+        if (functions.length === 0) throw new Error('ROWS FROM requires at least one function');
+        return new RowsFrom<RowsFromRow<Functions>>(functions, false);
+    }
+
+    withOrdinality() {
+        const ret = new RowsFrom<RowType & {ordinality: number}>(this.functions, true);
+        return ret as Omit<typeof ret, 'withOrdinality'>;
+    }
+
+    as<Alias extends string>(alias: Alias): From<Record<Alias, RowType>> {
+        return new FromRowsFrom(alias, this.functions, this.ordinality);
+    }
+}
+
+export const rowsFrom = RowsFrom.make;
+
+class FromRowsFrom<Alias extends string, RowType> extends BaseFrom<Record<Alias, RowType>> {
+    constructor(private alias: Alias, private functions: FromFunction<any, unknown>[],
+                private ordinality: boolean) {
+        super();
+    }
+
+    serialize(): Token[] {
+        const withOrdinality = this.ordinality ? [keyWord('WITH ORDINALITY')] : [];
+        return [
+            keyWord('ROWS FROM'),
+            specialCharacter('('),
+            ...commaSeparate(this.functions.map(f => f.serializeCall())),
+            specialCharacter(')'),
+            ...withOrdinality,
+            keyWord('AS'),
+            identifier(this.alias),
         ];
     }
 }
 
-// TODO: class RowsFrom<T> extends BaseFrom<T>
+class Unnest<Alias extends string, RowType> extends BaseFrom<Record<Alias, RowType>> {
+    protected constructor(private alias: Alias, private arrays: Record<string, UnknownExpr>,
+                          private ordinality: boolean) {
+        super();
+    }
+
+    /**
+     * Expand arrays into rows. Each key of `arrays` becomes a column holding the elements of that array; shorter
+     * arrays are padded with NULLs, so with more than one array every column is nullable.
+     */
+    static make<RowType extends object>(arrays: {[K in keyof RowType]: Expression<RowType[K][]>}) {
+        if (Object.keys(arrays).length === 0) throw new Error('unnest requires at least one array');
+        return new Unnest<'unnest', Padded<RowType, IsUnion<keyof RowType>>>('unnest', arrays, false);
+    }
+
+    withOrdinality() {
+        const ret = new Unnest<Alias, RowType & {ordinality: number}>(this.alias, this.arrays, true);
+        return ret as Omit<typeof ret, 'withOrdinality'>;
+    }
+
+    as<NewAlias extends string>(alias: NewAlias): From<Record<NewAlias, RowType>> {
+        return new Unnest(alias, this.arrays, this.ordinality);
+    }
+
+    serialize(): Token[] {
+        const columns = Object.keys(this.arrays);
+        const withOrdinality = this.ordinality ? [keyWord('WITH ORDINALITY')] : [];
+        // The output columns are all called "unnest" unless we name them
+        return [
+            identifier('unnest'),
+            specialCharacter('('),
+            ...commaSeparate(Object.values(this.arrays).map(a => a.serialize())),
+            specialCharacter(')'),
+            ...withOrdinality,
+            keyWord('AS'),
+            identifier(this.alias),
+            ...serializeColumnList(this.ordinality ? [...columns, 'ordinality'] : columns),
+        ];
+    }
+}
+
+export const unnest = Unnest.make;
+
+/** SELECT without a FROM clause, e.g. to compute a value or test a condition. */
+export function select<SelectTuple, Windows extends string = never>(
+    proj: () => SelectList<SelectTuple, Windows>,
+): SelectFrom<object, SelectTuple, Windows>;
+export function select<SelectTuple>(proj: () => Tuple<SelectTuple>): unknown {
+    const tuple = proj();
+    // An empty select list means SELECT *, which needs a FROM clause
+    if (Object.keys(tuple).length === 0) throw new Error('SELECT without FROM requires at least one column');
+    return SubqueryImpl.make(undefined, tuple);
+}
 
 export const rollup = (args: RollupArgs): GroupingTree => ({type: 'ROLLUP', args});
 export const cube = (args: RollupArgs): GroupingTree => ({type: 'CUBE' as const, args});
@@ -259,22 +622,20 @@ type WindowState =
     | {type: 'fresh'; name: string; partitionBy: UnknownExpr[]; orderBy?: OrderArg[]; frame?: WindowFrame}
     | {type: 'ref'; name: string; existingWindowName: string; orderBy?: OrderArg[]; frame?: WindowFrame};
 
-interface SubqueryState<FromTuple, SelectTuple> {
+interface OrderState {
+    orderBy?: OrderArg[];
+    offset?: Expression<number>;
+    fetch?: {fetch: Expression<number>; withTies: boolean};
+    limit?: Expression<number> | 'ALL';
+}
+
+interface SubqueryState extends OrderState {
     distinct?: Distinct;
     where?: BoolExpr;
     groupBy?: GroupingTree;
     groupByDistinct: boolean;
     having?: BoolExpr;
     windows: WindowState[];
-    setOps: {
-        type: 'UNION' | 'INTERSECT' | 'EXCEPT';
-        all: boolean;
-        query: UnitSubq<FromTuple, SelectTuple, boolean>;
-    }[];
-    orderBy?: OrderArg[];
-    offset?: Expression<number>;
-    fetch?: {fetch: Expression<number>; withTies: boolean};
-    limit?: Expression<number> | 'ALL';
     locks: {
         strength: 'UPDATE' | 'NO KEY UPDATE' | 'SHARE' | 'KEY SHARE';
         block?: 'NOWAIT' | 'SKIP LOCKED';
@@ -283,15 +644,15 @@ interface SubqueryState<FromTuple, SelectTuple> {
 }
 
 class SubqueryImpl<FromTuple, SelectTuple> {
-    protected constructor(private from: From<FromTuple>, private tuple: Tuple<SelectTuple>,
-                          private state: SubqueryState<FromTuple, SelectTuple>) {}
+    protected constructor(private from: From<FromTuple> | undefined, private tuple: Tuple<SelectTuple>,
+                          private state: SubqueryState) {}
 
-    static make<FromTuple, SelectTuple>(from: From<FromTuple>, tuple: Tuple<SelectTuple>) {
-        const initState = {groupByDistinct: false, windows: [], setOps: [], locks: []};
+    static make<FromTuple, SelectTuple>(from: From<FromTuple> | undefined, tuple: Tuple<SelectTuple>) {
+        const initState = {groupByDistinct: false, windows: [], locks: []};
         return new SubqueryImpl<FromTuple, SelectTuple>(from, tuple, initState);
     }
 
-    private update(newState: Partial<SubqueryState<FromTuple, SelectTuple>>): SubqueryImpl<FromTuple, SelectTuple>
+    private update(newState: Partial<SubqueryState>): SubqueryImpl<FromTuple, SelectTuple>
         { return new SubqueryImpl(this.from, this.tuple, {...this.state, ...newState}); }
 
     distinct() { return this.update({distinct: {type: 'row'}}); }
@@ -317,21 +678,12 @@ class SubqueryImpl<FromTuple, SelectTuple> {
     window(name: string): WindowMaker<FromTuple, SubqueryImpl<FromTuple, SelectTuple>>
         { return new WindowMaker(name, w => this.update({windows: this.state.windows.concat(w)})); }
 
-    private addSetOp(type: 'UNION' | 'INTERSECT' | 'EXCEPT', all: boolean,
-                     query: UnitSubq<FromTuple, SelectTuple, boolean>)
-        { return this.update({setOps: this.state.setOps.concat({type, all, query})}); }
-    union(other: UnitSubq<FromTuple, SelectTuple, boolean>)
-        { return this.addSetOp('UNION', false, other); }
-    unionAll(other: UnitSubq<FromTuple, SelectTuple, boolean>)
-        { return this.addSetOp('UNION', true, other); }
-    intersect(other: UnitSubq<FromTuple, SelectTuple, boolean>)
-        { return this.addSetOp('INTERSECT', false, other); }
-    intersectAll(other: UnitSubq<FromTuple, SelectTuple, boolean>)
-        { return this.addSetOp('INTERSECT', true, other); }
-    except(other: UnitSubq<FromTuple, SelectTuple, boolean>)
-        { return this.addSetOp('EXCEPT', false, other); }
-    exceptAll(other: UnitSubq<FromTuple, SelectTuple, boolean>)
-        { return this.addSetOp('EXCEPT', true, other); }
+    union(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'UNION', false, other); }
+    unionAll(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'UNION', true, other); }
+    intersect(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'INTERSECT', false, other); }
+    intersectAll(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'INTERSECT', true, other); }
+    except(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'EXCEPT', false, other); }
+    exceptAll(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'EXCEPT', true, other); }
 
     orderBy(order: (t: TupleMap<FromTuple>) => Array<UnknownExpr | OrderArg>)
         { return this.update({orderBy: resolveOrderArgs(order(tupleMap()))}); }
@@ -352,8 +704,14 @@ class SubqueryImpl<FromTuple, SelectTuple> {
         return this.update({locks: this.state.locks.concat({strength, block, tables})});
     }
 
-    as<Alias extends string>(alias: Alias): From<Record<Alias, SelectTuple>>
-        { return new FromSubquery(alias, this); }
+    as<Alias extends string>(alias: Alias): From<Record<Alias, SelectTuple>>;
+    as<Alias extends string, Renames extends ColumnRenames<SelectTuple>>(alias: Alias, renames: Renames):
+    From<Record<Alias, Renamed<SelectTuple, Renames>>>;
+    as(alias: string, renames?: ColumnRenames<SelectTuple>) { return FromSubquery.make(alias, this, renames); }
+
+    columns(): string[] {
+        return Object.keys(this.tuple);
+    }
 
     scalar(): Expression<SelectTuple[keyof SelectTuple]> {
         // https://www.postgresql.org/docs/current/sql-expressions.html#SQL-SYNTAX-SCALAR-SUBQUERIES
@@ -367,19 +725,12 @@ class SubqueryImpl<FromTuple, SelectTuple> {
 
     serialize(): Token[] {
         const {state} = this;
-        const fields = Object.entries<UnknownExpr>(this.tuple);
-
         const parts: Token[] = [keyWord('SELECT')];
         if (state.distinct)
             parts.push(...serializeDistinct(state.distinct));
-        if (fields.length === 0) parts.push(specialCharacter('*'));
-        else parts.push(...commaSeparate(fields.map(([name, expr]) => [
-            ...expr.serialize(),
-            keyWord('AS'),
-            identifier(quote.identifier(name)),
-        ])));
+        parts.push(...serializeOutputList(this.tuple));
 
-        parts.push(keyWord('FROM'), ...this.from.serialize());
+        if (this.from) parts.push(keyWord('FROM'), ...this.from.serialize());
 
         if (state.where) parts.push(keyWord('WHERE'), ...state.where.serialize());
         if (state.groupBy) parts.push(...serializeGroupBy(state.groupBy, state.groupByDistinct));
@@ -388,16 +739,7 @@ class SubqueryImpl<FromTuple, SelectTuple> {
             parts.push(keyWord('WINDOW'));
             parts.push(...commaSeparate(state.windows.map(w => serializeWindow(w))));
         }
-        for (const {type, all, query} of state.setOps) {
-            parts.push(keyWord(type));
-            if (all) parts.push(keyWord('ALL'));
-            parts.push(...query.serialize());
-        }
-        if (state.orderBy) {
-            parts.push(keyWord('ORDER BY'));
-            parts.push(...commaSeparate(state.orderBy.map(arg => serializeOrderArg(arg))));
-        }
-        parts.push(...this.serializeLimits());
+        parts.push(...serializeOrderState(state));
         for (const {strength, block, tables} of this.state.locks) {
             parts.push(keyWord('FOR'), keyWord(strength));
             if (tables !== undefined) parts.push(keyWord('OF'), ...tables.map(t => identifier(t)));
@@ -406,24 +748,120 @@ class SubqueryImpl<FromTuple, SelectTuple> {
         return parts;
     }
 
-    private serializeLimits(): Token[] {
-        const ret: Token[] = [];
-        const {offset, limit, fetch} = this.state;
-        if (fetch) {
-            if (offset === undefined) throw new Error('Recieved FETCH without OFFSET');
-            ret.push(keyWord('OFFSET'), ...offset.serialize(), keyWord('ROWS'));
-            ret.push(keyWord('FETCH NEXT'), ...fetch.fetch.serialize(), keyWord('ROWS'));
-            ret.push(keyWord(fetch.withTies ? 'WITH TIES' : 'ONLY'));
-            return ret;
-        }
-        if (limit) {
-            ret.push(keyWord('LIMIT'), ...(limit === 'ALL' ? [keyWord(limit)] : limit.serialize()));
-        }
-        if (offset) {
-            ret.push(keyWord('OFFSET'), ...offset.serialize());
-        }
+    /** Whether this has clauses that would apply to a whole set operation if left unparenthesized. */
+    hasTrailingClauses(): boolean {
+        return hasOrderState(this.state) || this.state.locks.length > 0;
+    }
+}
+
+function serializeOrderState({orderBy, offset, limit, fetch}: OrderState): Token[] {
+    const ret: Token[] = [];
+    if (orderBy) {
+        ret.push(keyWord('ORDER BY'));
+        ret.push(...commaSeparate(orderBy.map(arg => serializeOrderArg(arg))));
+    }
+    if (fetch) {
+        if (offset === undefined) throw new Error('Recieved FETCH without OFFSET');
+        ret.push(keyWord('OFFSET'), ...offset.serialize(), keyWord('ROWS'));
+        ret.push(keyWord('FETCH NEXT'), ...fetch.fetch.serialize(), keyWord('ROWS'));
+        ret.push(keyWord(fetch.withTies ? 'WITH TIES' : 'ONLY'));
         return ret;
     }
+    if (limit) {
+        ret.push(keyWord('LIMIT'), ...(limit === 'ALL' ? [keyWord(limit)] : limit.serialize()));
+    }
+    if (offset) {
+        ret.push(keyWord('OFFSET'), ...offset.serialize());
+    }
+    return ret;
+}
+
+type SetOpType = 'UNION' | 'INTERSECT' | 'EXCEPT';
+
+class SetOperation<SelectTuple> {
+    protected constructor(private left: Subquery<SelectTuple>, private type: SetOpType, private all: boolean,
+                          private right: Subquery<SelectTuple>, private state: OrderState) {}
+
+    static make<SelectTuple>(left: Subquery<SelectTuple>, type: SetOpType, all: boolean,
+                             right: Subquery<SelectTuple>): SetOpSubq<SelectTuple> {
+        return new SetOperation(left, type, all, right, {});
+    }
+
+    private update(newState: Partial<OrderState>): SetOperation<SelectTuple>
+        { return new SetOperation(this.left, this.type, this.all, this.right, {...this.state, ...newState}); }
+
+    union(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'UNION', false, other); }
+    unionAll(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'UNION', true, other); }
+    intersect(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'INTERSECT', false, other); }
+    intersectAll(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'INTERSECT', true, other); }
+    except(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'EXCEPT', false, other); }
+    exceptAll(other: Subquery<SelectTuple>) { return SetOperation.make(this, 'EXCEPT', true, other); }
+
+    orderBy(order: (t: OutputColumns<SelectTuple>) => Array<UnknownExpr | OrderArg>)
+        { return this.update({orderBy: resolveOrderArgs(order(outputColumns()))}); }
+
+    offset(offset: number | Expression<number>)
+        { return this.update({offset: typeof offset === 'number' ? number(offset) : offset}); }
+    limit(limit: number | Expression<number> | 'ALL')
+        { return this.update({limit: typeof limit === 'number' ? number(limit) : limit}); }
+    fetch(fetch: number | Expression<number>, ties?: 'WITH TIES') {
+        if (typeof fetch === 'number') fetch = number(fetch);
+        const withTies = ties === 'WITH TIES';
+        return this.update({fetch: {fetch, withTies}});
+    }
+
+    as<Alias extends string>(alias: Alias): From<Record<Alias, SelectTuple>>;
+    as<Alias extends string, Renames extends ColumnRenames<SelectTuple>>(alias: Alias, renames: Renames):
+    From<Record<Alias, Renamed<SelectTuple, Renames>>>;
+    as(alias: string, renames?: ColumnRenames<SelectTuple>) { return FromSubquery.make(alias, this, renames); }
+
+    columns(): string[] {
+        return this.left.columns();
+    }
+
+    scalar(): Expression<SelectTuple[keyof SelectTuple]> {
+        if (this.columns().length !== 1)
+            throw new Error('Scalar subqueries must return exactly one column');
+        return new SubqueryExpr<SelectTuple[keyof SelectTuple]>({
+            serialize: this.serialize.bind(this),
+            _tuple: {},
+        });
+    }
+
+    serialize(): Token[] {
+        return [
+            ...this.serializeOperand(this.left, 'left'),
+            keyWord(this.type),
+            ...(this.all ? [keyWord('ALL')] : []),
+            ...this.serializeOperand(this.right, 'right'),
+            ...serializeOrderState(this.state),
+        ];
+    }
+
+    // INTERSECT binds more tightly than UNION and EXCEPT, and operations of equal precedence group from the left,
+    // so a nested set operation only needs parentheses when it would otherwise be regrouped
+    private serializeOperand(query: Subquery<SelectTuple>, side: 'left' | 'right'): Token[] {
+        const bare = query instanceof SubqueryImpl ? !query.hasTrailingClauses()
+            : query instanceof SetOperation ? side === 'left' && !hasOrderState(query.state)
+                && (query.type === 'INTERSECT' || this.type !== 'INTERSECT')
+            : false;
+        if (bare) return query.serialize();
+        return [specialCharacter('('), ...query.serialize(), specialCharacter(')')];
+    }
+}
+
+function hasOrderState({orderBy, offset, fetch, limit}: OrderState): boolean {
+    return Boolean(orderBy || offset || fetch || limit);
+}
+
+function outputColumns<SelectTuple>(): OutputColumns<SelectTuple> {
+    return new Proxy<any>({}, {
+        get(target, name) {
+            if (name in target) return target[name];
+            if (typeof name !== 'string') return undefined;
+            return target[name] = outputColumn(name);
+        },
+    });
 }
 
 class WindowMaker<FromTuple, Next> {
@@ -433,7 +871,7 @@ class WindowMaker<FromTuple, Next> {
     as(existingWindowName: string, params?: Omit<WindowParams<FromTuple>, 'partitionBy'>): Next;
     as(arg1: string | WindowParams<FromTuple>, arg2?: Omit<WindowParams<FromTuple>, 'partitionBy'>) {
         const {frame, orderBy} = typeof arg1 === 'string' ? (arg2 ?? {}) : arg1;
-        const tuple = tupleMap<FromTuple>();
+        const tuple = tupleMap<TupleMap<FromTuple>>();
         const common = {name: this.name, orderBy: orderBy && resolveOrderArgs(orderBy(tuple)), frame};
         const window = typeof arg1 === 'string'
             ? {type: 'ref' as const, existingWindowName: arg1, ...common}
@@ -442,8 +880,172 @@ class WindowMaker<FromTuple, Next> {
     }
 }
 
-function resolveOrderArgs(args: (UnknownExpr | OrderArg)[]): OrderArg[] {
-    return args.map(arg => isFinalExpression(arg) ? {expr: arg} : arg);
+// https://www.postgresql.org/docs/current/queries-with.html
+
+/** A WITH query with an explicit MATERIALIZED or NOT MATERIALIZED hint. */
+interface MaterializedCte<T> {
+    query: Subquery<T>;
+    materialized: boolean;
+}
+
+type SelectCteDefinition<T> = Subquery<T> | MaterializedCte<T>;
+type CteDefinition<T> = SelectCteDefinition<T> | ReturningStatement<T>;
+
+export const materialized = <T>(query: Subquery<T>): MaterializedCte<T> => ({query, materialized: true});
+export const notMaterialized = <T>(query: Subquery<T>): MaterializedCte<T> => ({query, materialized: false});
+
+interface Cte {
+    name: string;
+    query: Serializable;
+    materialized?: boolean;
+    search?: {type: 'DEPTH' | 'BREADTH'; by: string[]; set: string};
+    cycle?: {columns: string[]; set: string; using: string};
+}
+
+class CteReference<Alias extends string, RowType> extends BaseFrom<Record<Alias, RowType>> {
+    constructor(private alias: Alias, private name: string) {
+        super();
+    }
+
+    as<NewAlias extends string>(alias: NewAlias): From<Record<NewAlias, RowType>> {
+        return new CteReference(alias, this.name);
+    }
+
+    serialize(): Token[] {
+        if (this.name === this.alias) return [identifier(this.alias)];
+        return [identifier(this.name), keyWord('AS'), identifier(this.alias)];
+    }
+}
+
+type CteReferences<Ctes> = {[Name in keyof Ctes & string]: CteReference<Name, Ctes[Name]>};
+
+class WithQuery<SelectTuple> implements Subquery<SelectTuple> {
+    // The main statement is a Subquery unless it's a data-modifying statement. Postgres only allows
+    // data-modifying statements in a top-level WITH, so if the main statement or any WITH query is one, the
+    // overloads below only expose `serialize`
+    protected constructor(private ctes: Cte[], private main: Serializable, private recursive: boolean) {}
+
+    /**
+     * Attach a WITH clause to a statement. Each entry of `ctes` becomes a from_item with the same name, which can
+     * be used when building the main statement. Entries can be SELECTs or data-modifying statements with a
+     * RETURNING clause. (`with` is a reserved word in JavaScript.)
+     */
+    static make<Ctes, SelectTuple>(
+        ctes: {[Name in keyof Ctes]: SelectCteDefinition<Ctes[Name]>},
+        main: (ctes: CteReferences<Ctes>) => Subquery<SelectTuple>,
+    ): Subquery<SelectTuple>;
+    static make<Ctes>(
+        ctes: {[Name in keyof Ctes]: CteDefinition<Ctes[Name]>},
+        main: (ctes: CteReferences<Ctes>) => Serializable,
+    ): Serializable;
+    static make<Ctes>(
+        ctes: {[Name in keyof Ctes]: CteDefinition<Ctes[Name]>},
+        main: (ctes: CteReferences<Ctes>) => Serializable,
+    ) {
+        const defs = Object.entries<CteDefinition<any>>(ctes).map(([name, def]): Cte =>
+            ('serialize' in def ? {name, query: def} : {name, query: def.query, materialized: def.materialized}));
+        const refs = Object.fromEntries(defs.map(({name}) => [name, new CteReference(name, name)]));
+        return WithQuery.nest(defs, main(refs as CteReferences<Ctes>), false);
+    }
+
+    static nest(ctes: Cte[], main: Serializable, recursive: boolean): WithQuery<any> {
+        // Postgres doesn't allow WITH ... WITH ..., so merge the lists instead
+        if (main instanceof WithQuery)
+            return new WithQuery(ctes.concat(main.ctes), main.main, recursive || main.recursive);
+        return new WithQuery(ctes, main, recursive);
+    }
+
+    as<Alias extends string>(alias: Alias): From<Record<Alias, SelectTuple>>;
+    as<Alias extends string, Renames extends ColumnRenames<SelectTuple>>(alias: Alias, renames: Renames):
+    From<Record<Alias, Renamed<SelectTuple, Renames>>>;
+    as(alias: string, renames?: ColumnRenames<SelectTuple>) { return FromSubquery.make(alias, this, renames); }
+
+    columns(): string[] {
+        return (this.main as Subquery<SelectTuple>).columns();
+    }
+
+    scalar(): Expression<SelectTuple[keyof SelectTuple]> {
+        if (this.columns().length !== 1)
+            throw new Error('Scalar subqueries must return exactly one column');
+        return new SubqueryExpr<SelectTuple[keyof SelectTuple]>({
+            serialize: this.serialize.bind(this),
+            _tuple: {},
+        });
+    }
+
+    serialize(): Token[] {
+        return [
+            keyWord('WITH'),
+            ...(this.recursive ? [keyWord('RECURSIVE')] : []),
+            ...commaSeparate(this.ctes.map(cte => serializeCte(cte))),
+            ...this.main.serialize(),
+        ];
+    }
+}
+
+export const withQueries = WithQuery.make;
+
+class RecursiveQuery<Name extends string, RowType> {
+    protected constructor(private cte: Cte) {}
+
+    /**
+     * Define a recursive WITH query. The recursive term can refer to the query itself through `self`, and must
+     * produce the same row type as the non-recursive anchor term. Use `.query()` to build the main query.
+     */
+    static make<Name extends string, RowType>(
+        name: Name,
+        anchor: Subquery<RowType>,
+        term: (self: CteReference<Name, RowType>) => Subquery<RowType>,
+        setOp: 'UNION' | 'UNION ALL' = 'UNION',
+    ) {
+        const recursiveTerm = term(new CteReference(name, name));
+        const query = SetOperation.make(anchor, 'UNION', setOp === 'UNION ALL', recursiveTerm);
+        return new RecursiveQuery<Name, RowType>({name, query});
+    }
+
+    /** Add a SEARCH DEPTH FIRST clause, which computes an ordering column `seqCol`. */
+    searchDepthFirst<SeqCol extends string>(by: (keyof RowType & string)[], seqCol: SeqCol):
+    RecursiveQuery<Name, RowType & Record<SeqCol, unknown>> {
+        return new RecursiveQuery({...this.cte, search: {type: 'DEPTH', by, set: seqCol}});
+    }
+
+    /** Add a SEARCH BREADTH FIRST clause, which computes an ordering column `seqCol`. */
+    searchBreadthFirst<SeqCol extends string>(by: (keyof RowType & string)[], seqCol: SeqCol):
+    RecursiveQuery<Name, RowType & Record<SeqCol, unknown>> {
+        return new RecursiveQuery({...this.cte, search: {type: 'BREADTH', by, set: seqCol}});
+    }
+
+    /** Add a CYCLE clause, which marks rows that close a cycle and tracks the path taken to reach each row. */
+    cycle<Mark extends string, Path extends string>(columns: (keyof RowType & string)[], mark: Mark, path: Path):
+    RecursiveQuery<Name, RowType & Record<Mark, boolean> & Record<Path, unknown[]>> {
+        return new RecursiveQuery({...this.cte, cycle: {columns, set: mark, using: path}});
+    }
+
+    query<SelectTuple>(main: (ctes: CteReferences<Record<Name, RowType>>) => Subquery<SelectTuple>):
+    Subquery<SelectTuple>;
+    query(main: (ctes: CteReferences<Record<Name, RowType>>) => Serializable): Serializable;
+    query(main: (ctes: CteReferences<Record<Name, RowType>>) => Serializable) {
+        const {name} = this.cte;
+        const refs = Object.fromEntries([[name, new CteReference(name, name)]]);
+        return WithQuery.nest([this.cte], main(refs as CteReferences<Record<Name, RowType>>), true);
+    }
+}
+
+export const withRecursive = RecursiveQuery.make;
+
+function serializeCte({name, query, materialized, search, cycle}: Cte): Token[] {
+    const ret: Token[] = [identifier(name), keyWord('AS')];
+    if (materialized !== undefined) ret.push(keyWord(materialized ? 'MATERIALIZED' : 'NOT MATERIALIZED'));
+    ret.push(specialCharacter('('), ...query.serialize(), specialCharacter(')'));
+    if (search) {
+        ret.push(keyWord(search.type === 'DEPTH' ? 'SEARCH DEPTH FIRST BY' : 'SEARCH BREADTH FIRST BY'));
+        ret.push(...commaSeparate(search.by.map(c => [identifier(c)])), keyWord('SET'), identifier(search.set));
+    }
+    if (cycle) {
+        ret.push(keyWord('CYCLE'), ...commaSeparate(cycle.columns.map(c => [identifier(c)])));
+        ret.push(keyWord('SET'), identifier(cycle.set), keyWord('USING'), identifier(cycle.using));
+    }
+    return ret;
 }
 
 function serializeDistinct(distinct: Distinct): Token[] {
@@ -476,42 +1078,11 @@ function serializeGroupBy(groupBy: GroupingTree, distinct: boolean): Token[] {
 }
 
 function serializeWindow(window: WindowState): Token[] {
-    const ret: Token[] = [identifier(window.name), keyWord('AS'), specialCharacter('(')];
-    if (window.type === 'fresh') {
-        ret.push(keyWord('PARTITION BY'));
-        window.partitionBy.forEach((e, i) => {
-            if (i > 0) ret.push(specialCharacter(','));
-            ret.push(...e.serialize());
-        });
-    } else {
-        ret.push(identifier(window.existingWindowName));
-    }
-    if (window.orderBy)
-        window.orderBy.forEach(a => ret.push(...serializeOrderArg(a)));
-    if (window.frame) {
-        ret.push(keyWord(window.frame.type));
-        if (window.frame.end !== undefined) ret.push(keyWord('BETWEEN'));
-        serializeFrameRef(window.frame.start);
-        if (window.frame.end !== undefined) {
-            ret.push(keyWord('AND'));
-            serializeFrameRef(window.frame.end);
-        }
-        if (window.frame.exclusion) ret.push(keyWord(window.frame.exclusion));
-    }
-    ret.push(specialCharacter(')'));
-    return ret;
-
-    function serializeFrameRef(ref: FrameRef) {
-        if (ref.type === 'PRECEDING' || ref.type === 'FOLLOWING')
-            ret.push(literal(ref.offset.toString()));
-        ret.push(keyWord(ref.type));
-    }
-}
-
-function serializeOrderArg(arg: OrderArg): Token[] {
-    const ret: Token[] = [...arg.expr.serialize()];
-    if (arg.order?.key === 'USING') ret.push(keyWord('USING'), identifier(arg.order.op));
-    else if (arg.order) ret.push(keyWord(arg.order.key));
-    if (arg.nulls) ret.push(keyWord(arg.nulls));
-    return ret;
+    return [
+        identifier(window.name),
+        keyWord('AS'),
+        specialCharacter('('),
+        ...serializeWindowBody(window),
+        specialCharacter(')'),
+    ];
 }
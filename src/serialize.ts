@@ -17,7 +17,8 @@ export function unlex(tokens: Token[]): string {
             || (token.type === 'SpecialCharacter' && token.value === '.')
             || (nextToken.type === 'SpecialCharacter' && (nextToken.value === '.' || nextToken.value === ':'))
             || (token.type === 'Identifier' && nextToken.type === 'SpecialCharacter' && nextToken.value === '(')
-            || (token.type === 'KeyWord' && ['CAST', 'ARRAY', 'ANY', 'ALL'].includes(token.value))
+            || (token.type === 'KeyWord' && ['CAST', 'ARRAY', 'ANY', 'ALL', 'EXISTS'].includes(token.value)
+                && nextToken.type === 'SpecialCharacter' && (nextToken.value === '(' || nextToken.value === '['))
             || (nextToken.type === 'SpecialCharacter' && (nextToken.value === ')' || nextToken.value === ']'))
             || (nextToken.type === 'SpecialCharacter' && nextToken.value === ',')
         );
@@ -47,6 +48,8 @@ function unlex1(token: Token) {
             return quote.operator(token.value);
         case 'SpecialCharacter':
             return token.value;
+        case 'TypeName':
+            return token.value;
         case 'ColumnReference': {
             const table = quote.identifier(token.tableName);
             const column = quote.identifier(token.columnName);
@@ -70,6 +73,7 @@ export type Token =
     | {type: 'Literal'; value: string | number | boolean | null}
     | {type: 'Operator'; value: string}
     | {type: 'SpecialCharacter'; value: SpecialCharacter}
+    | {type: 'TypeName'; value: string}
     | {type: 'ColumnReference'; tableName: string; columnName: string};
 
 export const keyWord = (value: KeyWord): Token => ({type: 'KeyWord', value});
@@ -78,12 +82,18 @@ export const identifier = (value: string, forceQuote?: boolean): Token =>
 export const literal = (value: string | number | boolean | null): Token => ({type: 'Literal', value});
 export const operator = (value: string): Token => ({type: 'Operator', value});
 export const specialCharacter = (value: SpecialCharacter): Token => ({type: 'SpecialCharacter', value});
+/** A type name such as `timestamp with time zone`, which comes from a type definition and is emitted as is. */
+export const typeName = (value: string): Token => ({type: 'TypeName', value});
 export const columnReference = (tableName: string, columnName: string): Token => ({
     type: 'ColumnReference',
     tableName,
     columnName,
 });
 
+/** A name that may be qualified by a schema, with each part quoted separately. */
+export const qualifiedName = (schema: string | undefined, name: string): Token[] =>
+    (schema === undefined ? [identifier(name)] : [identifier(schema), specialCharacter('.'), identifier(name)]);
+
 type SpecialCharacter = '(' | ')' | '[' | ']' | '*' | ',' | '.' | ':';
 
 // TODO: Cross-check against https://www.postgresql.org/docs/current/sql-keywords-appendix.html
@@ -95,18 +105,31 @@ type KeyWord =
     | 'ARRAY'
     | 'AS'
     | 'ASC'
+    | 'BERNOULLI'
+    | 'BETWEEN SYMMETRIC'
     | 'BETWEEN'
+    | 'CASE'
     | 'CAST'
     | 'CROSS JOIN'
     | 'CUBE'
     | 'CURRENT ROW'
+    | 'CYCLE'
+    | 'DEFAULT VALUES'
+    | 'DEFAULT'
+    | 'DELETE FROM'
+    | 'DELETE'
     | 'DESC'
     | 'DISTINCT'
+    | 'DO NOTHING'
+    | 'DO UPDATE'
+    | 'ELSE'
+    | 'END'
     | 'EXCEPT'
     | 'EXCLUDE CURRENT ROW'
     | 'EXCLUDE GROUP'
     | 'EXCLUDE NO OTHERS'
     | 'EXCLUDE TIES'
+    | 'EXISTS'
     | 'FETCH NEXT'
     | 'FILTER'
     | 'FOLLOWING'
@@ -118,13 +141,21 @@ type KeyWord =
     | 'GROUPS'
     | 'HAVING'
     | 'INNER'
+    | 'INSERT INTO'
+    | 'INSERT'
     | 'INTERSECT'
     | 'JOIN'
     | 'KEY SHARE'
     | 'LATERAL'
     | 'LEFT'
     | 'LIMIT'
+    | 'MATERIALIZED'
+    | 'MERGE INTO'
+    | 'NATURAL'
     | 'NO KEY UPDATE'
+    | 'NOT BETWEEN SYMMETRIC'
+    | 'NOT BETWEEN'
+    | 'NOT MATERIALIZED'
     | 'NOWAIT'
     | 'NULL'
     | 'NULLS FIRST'
@@ -132,6 +163,8 @@ type KeyWord =
     | 'NULLS'
     | 'OF'
     | 'OFFSET'
+    | 'ON CONFLICT'
+    | 'ON CONSTRAINT'
     | 'ON'
     | 'ONLY'
     | 'ORDER BY'
@@ -139,18 +172,32 @@ type KeyWord =
     | 'PARTITION BY'
     | 'PRECEDING'
     | 'RANGE'
+    | 'RECURSIVE'
+    | 'REPEATABLE'
+    | 'RETURNING'
     | 'RIGHT'
     | 'ROLLUP'
+    | 'ROWS FROM'
     | 'ROWS'
+    | 'SEARCH BREADTH FIRST BY'
+    | 'SEARCH DEPTH FIRST BY'
     | 'SELECT'
+    | 'SET'
     | 'SHARE'
     | 'SKIP LOCKED'
+    | 'SYSTEM'
+    | 'TABLESAMPLE'
+    | 'THEN'
     | 'UNBOUNDED FOLLOWING'
     | 'UNBOUNDED PRECEDING'
     | 'UNION'
     | 'UNIQUE KEYS'
     | 'UPDATE'
     | 'USING'
+    | 'VALUES'
+    | 'WHEN'
+    | 'WHEN MATCHED'
+    | 'WHEN NOT MATCHED'
     | 'WHERE'
     | 'WINDOW'
     | 'WITH ORDINALITY'
@@ -0,0 +1,37 @@
+import { UnknownExpr, field } from './expression';
+import * as quote from './quote';
+import { Tuple } from './select-types';
+import { Token, commaSeparate, identifier, keyWord, specialCharacter } from './serialize';
+
+// Helpers shared by the SELECT and data-modifying statement builders
+
+export function tupleMap<T>(): T {
+    return new Proxy<any>({}, {
+        get(target, tableName) {
+            if (tableName in target) return target[tableName];
+            if (typeof tableName !== 'string') return undefined;
+            return target[tableName] = subTuple(tableName);
+        },
+    });
+}
+
+function subTuple<T>(tableName: string): T {
+    return new Proxy<any>({}, {
+        get(target, fieldName) {
+            if (fieldName in target) return target[fieldName];
+            if (typeof fieldName !== 'string') return undefined;
+            return target[fieldName] = field(tableName, fieldName);
+        },
+    });
+}
+
+/** Serialize the output list of a SELECT or RETURNING clause. */
+export function serializeOutputList<SelectTuple>(tuple: Tuple<SelectTuple>): Token[] {
+    const fields = Object.entries<UnknownExpr>(tuple);
+    if (fields.length === 0) return [specialCharacter('*')];
+    return commaSeparate(fields.map(([name, expr]) => [
+        ...expr.serialize(),
+        keyWord('AS'),
+        identifier(quote.identifier(name)),
+    ]));
+}
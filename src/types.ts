@@ -8,6 +8,7 @@ export type Jsonb = {[__brand]: 'jsonb'};
 export type Xml = {[__brand]: 'xml'};
 export type Range<T> = {[__brand]: 'range'; subtype: T};
 export type MultiRange<T> = {[__brand]: 'multirange'; subtype: T};
+export type Interval = {[__brand]: 'interval'};
 
 export function tagUuid(hex: string): Uuid {
     const uuidRegex = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[1-5][0-9a-f]{3}-?[89ab][0-9a-f]{3}-?[0-9a-f]{12}$/i;
@@ -34,6 +35,7 @@ export const number = makeType<number>('number');
 export const boolean = makeType<boolean>('boolean');
 export const bytea = makeType<Buffer>('bytea');
 export const timestampWithTimeZone = makeType<Date>('timestamp with time zone');
+export const interval = makeType<Interval>('interval');
 export const uuid = makeType<Uuid>('uuid');
 export const json = makeType<Json>('json');
 export const jsonb = makeType<Jsonb>('jsonb');